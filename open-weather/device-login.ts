@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+
+/**
+ * Example headless login using the Device Authorization Grant.
+ * Authenticates a gateway box against Legion without a browser, stores the tokens and
+ * keeps them fresh through the TokenManager.
+ *
+ * Usage: yarn device-login [organization-id]
+ */
+
+import { config, resilienceOptions } from './src/config';
+import { DeviceFlowError, DeviceFlowOptions, refreshDeviceTokens, runDeviceFlow } from './src/device-flow';
+import { LegionApiError, LegionClient } from './src/legion-client';
+import { TokenSet } from './src/oauth';
+import { Upstream } from './src/resilience';
+import { createStore } from './src/store';
+import { TokenManager } from './src/token-manager';
+
+const deviceOptions: DeviceFlowOptions = {
+    legionApiUrl: config.LEGION_API_URL,
+    clientId: config.DEVICE_CLIENT_ID,
+    clientSecret: config.DEVICE_CLIENT_SECRET || undefined,
+    scope: config.DEVICE_SCOPE || undefined
+};
+
+/**
+ * Legion scopes look like {org_id}:::{scope_name}; take the organization from the first one
+ */
+function orgIdFromTokens(tokens: TokenSet): string | null {
+    const scopedEntry = (tokens.scope || '').split(' ').find(scope => scope.includes(':::'));
+    return scopedEntry ? scopedEntry.split(':::')[0] : null;
+}
+
+async function main(): Promise<void> {
+    if (!deviceOptions.clientId) {
+        console.error('❌ DEVICE_CLIENT_ID (or CLIENT_ID) is not set');
+        process.exit(1);
+    }
+
+    const store = createStore();
+    const tokenManager = new TokenManager(
+        store.organizations,
+        refreshToken => refreshDeviceTokens(deviceOptions, refreshToken),
+        config.TOKEN_REFRESH_MARGIN_SECONDS
+    );
+
+    let orgId: string | null = process.argv[2] || null;
+    const existing = orgId ? await store.organizations.get(orgId) : undefined;
+
+    // Reuse a stored session when we have one; the token manager refreshes it as needed
+    if (!existing || existing.status === 'needs_reconsent') {
+        console.log('📟 Starting device authorization...');
+        const tokens = await runDeviceFlow(deviceOptions);
+
+        orgId = orgId || orgIdFromTokens(tokens);
+        if (!orgId) {
+            throw new Error('Could not determine organization ID from token scopes; pass it as an argument');
+        }
+
+        await tokenManager.activateOrganization(orgId, tokens);
+        console.log(`✅ Device authorized for organization ${orgId}`);
+    } else {
+        console.log(`✅ Using stored session for organization ${orgId}`);
+    }
+
+    await tokenManager.ensureValidToken(orgId!);
+    const status = await tokenManager.getTokenStatus(orgId!);
+    console.log(`   Access token expires: ${status?.expiresAt?.toISOString() || 'unknown'}`);
+
+    // Prove the token works
+    const client = new LegionClient({
+        baseUrl: config.LEGION_API_URL,
+        accessToken: () => tokenManager.ensureValidToken(orgId!),
+        refreshAccessToken: staleAccessToken => tokenManager.refresh(orgId!, staleAccessToken),
+        upstream: new Upstream('legion', resilienceOptions)
+    });
+    const organizations = await client.listMyOrganizations();
+    console.log('\n🏢 Organizations visible to this device:');
+    for (const org of organizations) {
+        console.log(`  - ${org.organization_name} (${org.organization_id})`);
+    }
+
+    await store.close();
+}
+
+main().catch(error => {
+    if (error instanceof DeviceFlowError) {
+        console.error(`\n❌ Device authorization failed: ${error.message}`);
+    } else if (error instanceof LegionApiError) {
+        console.error('\n❌ Device login failed:', error.body || error.message);
+    } else {
+        console.error('\n❌ Device login failed:', error.response?.data || error.message);
+    }
+    process.exit(1);
+});
@@ -10,6 +10,14 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
 import * as dotenv from 'dotenv';
+import {
+    Integration,
+    IntegrationManifest,
+    LegionApiError,
+    LegionClient,
+    Organization
+} from './src/legion-client';
+import { getOidcEndpoints } from './src/oidc';
 
 declare const __dirname: string;
 
@@ -21,43 +29,6 @@ interface TokenResponse {
     expires_in: number;
 }
 
-interface Organization {
-    organization_id: string;
-    organization_name: string;
-}
-
-interface OAuthClient {
-    client_id: string;
-    client_secret?: string;
-}
-
-interface OAuthConfigResponse {
-    id: string;
-    integration_id: string;
-    client_id: string;
-    client_secret?: string;
-    auth_flow_type: string;
-    requested_scopes: string[];
-    created_at: string;
-    updated_at: string;
-}
-
-interface Integration {
-    id: string;
-    name: string;
-    oauth_client?: OAuthClient;
-    oauth_config?: OAuthConfigResponse;
-}
-
-interface Manifest {
-    name: string;
-    version: string;
-    oauth_config: {
-        scopes: string[];
-        redirect_urls: string[];
-    };
-}
-
 dotenv.config();
 
 // Configuration
@@ -72,49 +43,32 @@ const rl = readline.createInterface({
 const question = (query: string): Promise<string> => 
     new Promise(resolve => rl.question(query, resolve));
 
-async function getAuthorizationURL(): Promise<string> {
-    try {
-        const url = `${LEGION_API_URL}/integrations/oauth/authorization-url`;
-        console.log(`Fetching authorization URL from: ${url}`);
-        
-        const response = await axios.get<{ authorization_url: string }>(url);
-        
-        if (!response.data.authorization_url) {
-            throw new Error('Empty authorization URL in response');
-        }
-        
-        console.log(`Authorization URL: ${response.data.authorization_url}`);
-        return response.data.authorization_url;
-    } catch (error) {
-        if (axios.isAxiosError(error)) {
-            console.error('Failed to get authorization URL:', error.response?.status, error.response?.data || error.message);
-            console.error('Full error:', error);
-        } else {
-            console.error('Failed to get authorization URL:', error);
-        }
-        throw error;
+/**
+ * Legion client acting as the signed-in user, optionally within an organization
+ */
+function legionClient(token: string, orgId?: string): LegionClient {
+    return new LegionClient({
+        baseUrl: LEGION_API_URL,
+        orgId,
+        accessToken: async () => token
+    });
+}
+
+/**
+ * Details worth printing for a failed call: Legion's response body when there is one
+ */
+function errorDetails(error: unknown): unknown {
+    if (error instanceof LegionApiError) {
+        return error.body || error.message;
     }
+    return error;
 }
 
 async function getAccessToken(username: string, password: string): Promise<string> {
     try {
-        const authUrl = await getAuthorizationURL();
-        const parsedUrl = new URL(authUrl);
-        
-        // Convert authorization endpoint to token endpoint
-        // e.g., /auth/realms/legion/protocol/openid-connect/auth -> /realms/legion/protocol/openid-connect/token
-        let tokenPath = parsedUrl.pathname;
-        if (tokenPath.includes('/auth/realms/')) {
-            tokenPath = tokenPath.replace('/auth/realms/', '/realms/');
-        }
-        if (tokenPath.endsWith('/auth')) {
-            tokenPath = tokenPath.replace('/auth', '/token');
-        } else if (tokenPath.includes('/protocol/openid-connect')) {
-            tokenPath = tokenPath + '/token';
-        }
-        
-        const tokenEndpoint = `${parsedUrl.origin}${tokenPath}`;
-        console.log(`Token endpoint: ${tokenEndpoint}`);
+        console.log(`Discovering OpenID endpoints via: ${LEGION_API_URL}`);
+        const { tokenEndpoint, discovered } = await getOidcEndpoints(LEGION_API_URL);
+        console.log(`Token endpoint: ${tokenEndpoint}${discovered ? '' : ' (derived, discovery failed)'}`);
         
         const response = await axios.post<TokenResponse>(
             tokenEndpoint,
@@ -143,48 +97,22 @@ async function getAccessToken(username: string, password: string): Promise<strin
 
 async function getOrganizations(token: string): Promise<Organization[]> {
     try {
-        const response = await axios.get<{ results: Organization[] }>(`${LEGION_API_URL}/me/orgs`, {
-            headers: {
-                'Authorization': `Bearer ${token}`
-            }
-        });
-        return response.data.results || [];
+        return await legionClient(token).listMyOrganizations();
     } catch (error) {
-        if (axios.isAxiosError(error)) {
-            console.error('Failed to get organizations:', error.response?.data || error.message);
-        } else {
-            console.error('Failed to get organizations:', error);
-        }
+        console.error('Failed to get organizations:', errorDetails(error));
         throw error;
     }
 }
 
-async function setupIntegration(token: string, orgId: string, manifest: Manifest): Promise<Integration | null> {
+async function setupIntegration(token: string, orgId: string, manifest: IntegrationManifest): Promise<Integration | null> {
     try {
-        const response = await axios.post<Integration>(
-            `${LEGION_API_URL}/integrations`,
-            {
-                manifest_content: manifest
-            },
-            {
-                headers: {
-                    'Authorization': `Bearer ${token}`,
-                    'X-ORG-ID': orgId,
-                    'Content-Type': 'application/json'
-                }
-            }
-        );
-        return response.data;
+        return await legionClient(token, orgId).createIntegration(manifest);
     } catch (error) {
-        if (axios.isAxiosError(error)) {
-            if (error.response?.status === 409) {
-                console.log('\n⚠️  Integration already exists for this organization.');
-                return null;
-            }
-            console.error('Failed to create integration:', error.response?.data || error.message);
-        } else {
-            console.error('Failed to create integration:', error);
+        if (error instanceof LegionApiError && error.status === 409) {
+            console.log('\n⚠️  Integration already exists for this organization.');
+            return null;
         }
+        console.error('Failed to create integration:', errorDetails(error));
         throw error;
     }
 }
@@ -193,24 +121,12 @@ async function deleteIntegration(token: string, orgId: string, integrationId: st
     try {
         console.log(`\n🗑️  Deleting integration ${integrationId}...`);
         
-        await axios.delete(
-            `${LEGION_API_URL}/integrations/${integrationId}`,
-            {
-                headers: {
-                    'Authorization': `Bearer ${token}`,
-                    'X-ORG-ID': orgId
-                }
-            }
-        );
+        await legionClient(token, orgId).deleteIntegration(integrationId);
         
         console.log('✅ Integration deleted successfully');
         return true;
     } catch (error) {
-        if (axios.isAxiosError(error)) {
-            console.error('Failed to delete integration:', error.response?.data || error.message);
-        } else {
-            console.error('Failed to delete integration:', error);
-        }
+        console.error('Failed to delete integration:', errorDetails(error));
         return false;
     }
 }
@@ -242,7 +158,7 @@ async function main(): Promise<void> {
         process.exit(1);
     }
 
-    const manifest: Manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+    const manifest: IntegrationManifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
     console.log(`📋 Loaded manifest: ${manifest.name} v${manifest.version}\n`);
 
     // Get credentials
@@ -288,17 +204,8 @@ async function main(): Promise<void> {
             
             try {
                 // Get all integrations for the organization
-                const integrationsResponse = await axios.get<{ integrations: Integration[] }>(
-                    `${LEGION_API_URL}/integrations/organization/${selectedOrg.organization_id}`,
-                    {
-                        headers: {
-                            'Authorization': `Bearer ${token}`,
-                            'X-ORG-ID': selectedOrg.organization_id
-                        }
-                    }
-                );
-
-                const integrations = integrationsResponse.data.integrations || [];
+                const integrations = await legionClient(token, selectedOrg.organization_id)
+                    .listOrganizationIntegrations(selectedOrg.organization_id);
                 
                 if (integrations.length === 0) {
                     console.log('\n❌ No integrations found in this organization');
@@ -349,11 +256,7 @@ async function main(): Promise<void> {
                     console.log('❌ Deletion cancelled');
                 }
             } catch (error) {
-                if (axios.isAxiosError(error)) {
-                    console.error('Failed to fetch integrations:', error.response?.data || error.message);
-                } else {
-                    console.error('Failed to fetch integrations:', error);
-                }
+                console.error('Failed to fetch integrations:', errorDetails(error));
             }
             
             return;
@@ -375,17 +278,9 @@ async function main(): Promise<void> {
         } else {
             // Try to list integrations (this might return 404 on some environments)
             try {
-                const integrationsResponse = await axios.get<{ integrations: Integration[] }>(
-                    `${LEGION_API_URL}/integrations`,
-                    {
-                        headers: {
-                            'Authorization': `Bearer ${token}`,
-                            'X-ORG-ID': selectedOrg.organization_id
-                        }
-                    }
-                );
+                const integrations = await legionClient(token, selectedOrg.organization_id).listIntegrations();
 
-                existingIntegration = integrationsResponse.data.integrations?.find(
+                existingIntegration = integrations.find(
                     (int: Integration) => int.name === manifest.name
                 ) || null;
 
@@ -407,18 +302,10 @@ async function main(): Promise<void> {
                 // Check if we got a 409 conflict (integration already exists)
                 console.log('\n⚠️  Integration creation failed. Trying to find existing integration by name...');
                 try {
-                    const searchResponse = await axios.get<{ integrations: Integration[] }>(
-                        `${LEGION_API_URL}/integrations`,
-                        {
-                            headers: {
-                                'Authorization': `Bearer ${token}`,
-                                'X-ORG-ID': selectedOrg.organization_id
-                            }
-                        }
-                    );
+                    const integrations = await legionClient(token, selectedOrg.organization_id).listIntegrations();
                     
                     // Try to find by similar name (in case of minor differences)
-                    const found = searchResponse.data.integrations?.find(
+                    const found = integrations.find(
                         (int: Integration) => int.name.toLowerCase().includes(manifest.name.toLowerCase()) || 
                                               manifest.name.toLowerCase().includes(int.name.toLowerCase())
                     );
@@ -480,20 +367,12 @@ async function main(): Promise<void> {
                 // Only check for OAuth client via separate API call if we don't have it from creation response
                 console.log('\n🔍 Checking for OAuth client...');
                 try {
-                    const clientResponse = await axios.get<OAuthConfigResponse>(
-                        `${LEGION_API_URL}/integrations/${integration.id}/client`,
-                        {
-                            headers: {
-                                'Authorization': `Bearer ${token}`,
-                                'X-ORG-ID': selectedOrg.organization_id
-                            }
-                        }
-                    );
-                    console.log('OAuth client response:', JSON.stringify(clientResponse.data, null, 2));
+                    const oauthClient = await legionClient(token, selectedOrg.organization_id).getOAuthClient(integration.id);
+                    console.log('OAuth client response:', JSON.stringify(oauthClient, null, 2));
                     
-                    if (clientResponse.data && clientResponse.data.client_id) {
-                        clientId = clientResponse.data.client_id;
-                        clientSecret = clientResponse.data.client_secret;
+                    if (oauthClient && oauthClient.client_id) {
+                        clientId = oauthClient.client_id;
+                        clientSecret = oauthClient.client_secret;
                         console.log(`✅ OAuth client found: ${clientId}`);
                         
                         if (clientSecret) {
@@ -506,19 +385,19 @@ async function main(): Promise<void> {
                         
                         // Log the full OAuth config details
                         console.log('\nOAuth Configuration Details:');
-                        console.log(`  Config ID: ${clientResponse.data.id || 'N/A'}`);
-                        console.log(`  Integration ID: ${clientResponse.data.integration_id || integration.id}`);
-                        console.log(`  Client ID: ${clientResponse.data.client_id}`);
+                        console.log(`  Config ID: ${oauthClient.id || 'N/A'}`);
+                        console.log(`  Integration ID: ${oauthClient.integration_id || integration.id}`);
+                        console.log(`  Client ID: ${oauthClient.client_id}`);
                         console.log(`  Client Type: ${clientSecret ? 'Confidential' : 'Public'}`);
-                        console.log(`  Auth Flow Type: ${clientResponse.data.auth_flow_type || 'N/A'}`);
-                        console.log(`  Requested Scopes: ${clientResponse.data.requested_scopes?.join(', ') || 'N/A'}`);
+                        console.log(`  Auth Flow Type: ${oauthClient.auth_flow_type || 'N/A'}`);
+                        console.log(`  Requested Scopes: ${oauthClient.requested_scopes?.join(', ') || 'N/A'}`);
                         
                         if (clientSecret) {
                             console.log(`  Client Secret: ${clientSecret.substring(0, 12)}...${clientSecret.substring(clientSecret.length - 4)}`);
                         }
                     }
                 } catch (error) {
-                    if (axios.isAxiosError(error) && error.response?.status === 404) {
+                    if (error instanceof LegionApiError && error.status === 404) {
                         console.log('❌ OAuth client not found.');
                         
                         // For existing integrations, we should try to create the OAuth client
@@ -529,33 +408,23 @@ async function main(): Promise<void> {
 
                         try {
                             // Create OAuth client manually
-                            const oauthResponse = await axios.post<OAuthConfigResponse>(
-                                `${LEGION_API_URL}/integrations/${integration.id}/oauth-configs`,
-                                {
-                                    name: manifest.name,
-                                    auth_flow_type: 'authorization_code',
-                                    requested_scopes: manifest.oauth_config.scopes,
-                                    redirect_uris: manifest.oauth_config.redirect_urls,
-                                    root_url: new URL(manifest.oauth_config.redirect_urls[0]).origin,
-                                    client_type: 'confidential' // Request a confidential client that requires a secret
-                                },
-                                {
-                                    headers: {
-                                        'Authorization': `Bearer ${token}`,
-                                        'X-ORG-ID': selectedOrg.organization_id,
-                                        'Content-Type': 'application/json'
-                                    }
-                                }
-                            );
-
-                            if (oauthResponse.data && oauthResponse.data.client_id) {
-                                clientId = oauthResponse.data.client_id;
-                                clientSecret = oauthResponse.data.client_secret;
+                            const oauthConfig = await legionClient(token, selectedOrg.organization_id).createOAuthConfig(integration.id, {
+                                name: manifest.name,
+                                auth_flow_type: 'authorization_code',
+                                requested_scopes: manifest.oauth_config.scopes,
+                                redirect_uris: manifest.oauth_config.redirect_urls,
+                                root_url: new URL(manifest.oauth_config.redirect_urls[0]).origin,
+                                client_type: 'confidential' // Request a confidential client that requires a secret
+                            });
+
+                            if (oauthConfig && oauthConfig.client_id) {
+                                clientId = oauthConfig.client_id;
+                                clientSecret = oauthConfig.client_secret;
                                 console.log(`✅ OAuth client created: ${clientId}`);
                                 
                                 console.log('\nCreated OAuth Client Details:');
-                                console.log(`  Client ID: ${oauthResponse.data.client_id}`);
-                                console.log(`  Client Type: ${oauthResponse.data.client_secret ? 'Confidential' : 'Public'}`);
+                                console.log(`  Client ID: ${oauthConfig.client_id}`);
+                                console.log(`  Client Type: ${oauthConfig.client_secret ? 'Confidential' : 'Public'}`);
                                 if (clientSecret) {
                                     console.log(`  Client Secret: ${clientSecret}`);
                                     console.log(`✅ OAuth client secret generated (will be saved to .env)`);
@@ -564,18 +433,10 @@ async function main(): Promise<void> {
                                 }
                             }
                         } catch (oauthError) {
-                            if (axios.isAxiosError(oauthError)) {
-                                console.error('❌ Failed to create OAuth client:', oauthError.response?.data || oauthError.message);
-                            } else {
-                                console.error('❌ Failed to create OAuth client:', oauthError);
-                            }
+                            console.error('❌ Failed to create OAuth client:', errorDetails(oauthError));
                         }
                     } else {
-                        if (axios.isAxiosError(error)) {
-                            console.log('⚠️  Error checking OAuth client:', error.response?.data || error.message);
-                        } else {
-                            console.log('⚠️  Error checking OAuth client:', error as Error);
-                        }
+                        console.log('⚠️  Error checking OAuth client:', errorDetails(error));
                     }
                 }
             }
@@ -0,0 +1,46 @@
+import { AirQualityPayload } from './feed-schemas';
+import { Entity } from './legion-client';
+
+/**
+ * Air pollution readings from the OpenWeather Air Pollution API for stations that have the
+ * `air_quality` capability. The API only takes coordinates, so stations need a lat/lon.
+ */
+export const AIR_QUALITY_CAPABILITY = 'air_quality';
+
+/**
+ * Whether a station is set up to publish air quality
+ */
+export function hasAirQuality(station: Entity): boolean {
+    const capabilities = station.metadata?.capabilities;
+    return Array.isArray(capabilities) && capabilities.includes(AIR_QUALITY_CAPABILITY);
+}
+
+/**
+ * A capability list with one capability switched on or off, keeping the order of the rest
+ */
+export function withCapability(capabilities: unknown, capability: string, enabled: boolean): string[] {
+    const current = Array.isArray(capabilities) ? capabilities.filter(item => item !== capability) : [];
+    return enabled ? [...current, capability] : current;
+}
+
+/**
+ * Turn an OpenWeather `/data/2.5/air_pollution` response into an air quality payload, or null if it has no measurement
+ */
+export function toAirQualityPayload(data: any): AirQualityPayload | null {
+    const measurement = (data?.list || [])[0];
+    if (!measurement) {
+        return null;
+    }
+
+    const { components } = measurement;
+    return {
+        aqi: measurement.main.aqi,
+        pm2_5: components.pm2_5,
+        pm10: components.pm10,
+        o3: components.o3,
+        no2: components.no2,
+        co: components.co,
+        so2: components.so2,
+        timestamp: new Date(measurement.dt * 1000).toISOString()
+    };
+}
@@ -0,0 +1,371 @@
+import crypto from 'crypto';
+import { Entity } from './legion-client';
+import { AlertOperator, AlertRule, AlertSeverity, AlertState, AlertTarget, Collection } from './store';
+
+/**
+ * Severe weather alerting. Each organization keeps its own threshold rules (wind speed above X,
+ * temperature below Y, an OpenWeather condition code); every station reading is checked against
+ * them. An alert is raised when a reading crosses the threshold and cleared only once readings
+ * are back past it by the rule's hysteresis, and a cleared alert isn't raised again within its
+ * cooldown, so readings hovering around a threshold don't flap.
+ */
+export type AlertEventState = 'raised' | 'cleared';
+
+/**
+ * A reading as rules see it: the feed payload plus anything else worth alerting on (e.g. condition_code)
+ */
+export interface AlertObservation {
+    timestamp: string;
+    [metric: string]: unknown;
+}
+
+export interface AlertEvent {
+    alertId: string;
+    state: AlertEventState;
+    rule: AlertRule;
+    station: Entity;
+    value: number;
+    raisedAt: string;
+    clearedAt: string | null;
+    // Alert entity created when the alert was raised, if any
+    entityId: string | null;
+}
+
+/**
+ * Publishes a raised or cleared alert to Legion. Returns the alert entity's ID when it created one.
+ */
+export type AlertPublisher = (orgId: string, event: AlertEvent) => Promise<string | null>;
+
+export const CONDITION_CODE_METRIC = 'condition_code';
+
+const OPERATORS: AlertOperator[] = ['above', 'below', 'in'];
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+const TARGETS: AlertTarget[] = ['feed', 'entity'];
+
+const DEFAULT_COOLDOWN_SECONDS = 3600;
+
+const OPERATOR_WORDS: Record<AlertOperator, string> = {
+    above: 'above',
+    below: 'below',
+    in: 'one of'
+};
+
+/**
+ * A rule body that doesn't describe a usable rule
+ */
+export class AlertRuleValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid alert rule: ${errors.join('; ')}`);
+        this.name = 'AlertRuleValidationError';
+    }
+}
+
+/**
+ * A rule as the API shows it
+ */
+export function ruleToJson(rule: AlertRule) {
+    return {
+        id: rule.id,
+        name: rule.name,
+        metric: rule.metric,
+        operator: rule.operator,
+        threshold: rule.threshold,
+        codes: rule.codes,
+        hysteresis: rule.hysteresis,
+        cooldown_seconds: rule.cooldownSeconds,
+        severity: rule.severity,
+        publish_to: rule.publishTo,
+        station_ids: rule.stationIds,
+        enabled: rule.enabled,
+        created_at: rule.createdAt,
+        updated_at: rule.updatedAt
+    };
+}
+
+/**
+ * One-line summary of an alert, e.g. "High wind: wind_speed 21.5 above 20 (raised)"
+ */
+export function describeAlert(event: AlertEvent): string {
+    const { rule } = event;
+    const limit = rule.operator === 'in' ? rule.codes!.join(', ') : rule.threshold;
+    return `${rule.name}: ${rule.metric} ${event.value} ${OPERATOR_WORDS[rule.operator]} ${limit} (${event.state})`;
+}
+
+type RuleFields = Omit<AlertRule, 'id' | 'orgId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Check an API rule body (snake_case), on top of an existing rule's fields when updating
+ */
+function parseRule(body: any, metrics: string[], existing?: AlertRule): RuleFields {
+    const input = { ...(existing ? ruleToJson(existing) : {}), ...(body || {}) };
+    const errors: string[] = [];
+
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+        errors.push('name is required');
+    }
+    if (!OPERATORS.includes(input.operator)) {
+        errors.push(`operator must be one of: ${OPERATORS.join(', ')}`);
+    }
+
+    if (input.operator === 'in') {
+        if (input.metric !== CONDITION_CODE_METRIC) {
+            errors.push(`operator 'in' only applies to ${CONDITION_CODE_METRIC}`);
+        }
+        if (!Array.isArray(input.codes) || input.codes.length === 0 || !input.codes.every(Number.isInteger)) {
+            errors.push('codes must be a non-empty list of OpenWeather condition codes');
+        }
+    } else if (input.operator) {
+        if (!metrics.includes(input.metric)) {
+            errors.push(`metric must be one of: ${metrics.join(', ')}`);
+        }
+        if (typeof input.threshold !== 'number' || !isFinite(input.threshold)) {
+            errors.push('threshold must be a number');
+        }
+    }
+
+    const hysteresis = input.hysteresis ?? 0;
+    if (typeof hysteresis !== 'number' || hysteresis < 0) {
+        errors.push('hysteresis must be a number of at least 0');
+    }
+    const cooldownSeconds = input.cooldown_seconds ?? DEFAULT_COOLDOWN_SECONDS;
+    if (typeof cooldownSeconds !== 'number' || cooldownSeconds < 0) {
+        errors.push('cooldown_seconds must be a number of at least 0');
+    }
+    const severity = input.severity ?? 'warning';
+    if (!SEVERITIES.includes(severity)) {
+        errors.push(`severity must be one of: ${SEVERITIES.join(', ')}`);
+    }
+    const publishTo = input.publish_to ?? ['feed'];
+    if (!Array.isArray(publishTo) || publishTo.length === 0 || !publishTo.every((target: any) => TARGETS.includes(target))) {
+        errors.push(`publish_to must be a non-empty list of: ${TARGETS.join(', ')}`);
+    }
+    const stationIds = input.station_ids ?? null;
+    if (stationIds !== null && (!Array.isArray(stationIds) || !stationIds.every((id: any) => typeof id === 'string'))) {
+        errors.push('station_ids must be a list of station IDs, or null for all stations');
+    }
+    const enabled = input.enabled ?? true;
+    if (typeof enabled !== 'boolean') {
+        errors.push('enabled must be a boolean');
+    }
+
+    if (errors.length > 0) {
+        throw new AlertRuleValidationError(errors);
+    }
+
+    return {
+        name: input.name.trim(),
+        metric: input.metric,
+        operator: input.operator,
+        threshold: input.operator === 'in' ? null : input.threshold,
+        codes: input.operator === 'in' ? Array.from(new Set<number>(input.codes)) : null,
+        hysteresis,
+        cooldownSeconds,
+        severity,
+        publishTo: Array.from(new Set<AlertTarget>(publishTo)),
+        stationIds,
+        enabled
+    };
+}
+
+function isTriggered(rule: AlertRule, value: number): boolean {
+    switch (rule.operator) {
+        case 'above':
+            return value > rule.threshold!;
+        case 'below':
+            return value < rule.threshold!;
+        case 'in':
+            return rule.codes!.includes(value);
+    }
+}
+
+function isCleared(rule: AlertRule, value: number): boolean {
+    switch (rule.operator) {
+        case 'above':
+            return value <= rule.threshold! - rule.hysteresis;
+        case 'below':
+            return value >= rule.threshold! + rule.hysteresis;
+        case 'in':
+            return !rule.codes!.includes(value);
+    }
+}
+
+const stateKey = (ruleId: string, stationId: string) => `${ruleId}:${stationId}`;
+
+export class AlertEngine {
+    constructor(
+        private readonly rules: Collection<AlertRule>,
+        private readonly states: Collection<AlertState>,
+        private readonly publish: AlertPublisher,
+        // Numeric reading fields rules may watch, besides condition_code
+        private readonly metrics: string[]
+    ) {}
+
+    async listRules(orgId: string): Promise<AlertRule[]> {
+        return (await this.rules.entries())
+            .map(([, rule]) => rule)
+            .filter(rule => rule.orgId === orgId)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    }
+
+    async getRule(orgId: string, ruleId: string): Promise<AlertRule | null> {
+        const rule = await this.rules.get(ruleId);
+        return rule && rule.orgId === orgId ? rule : null;
+    }
+
+    async createRule(orgId: string, body: unknown): Promise<AlertRule> {
+        const now = new Date().toISOString();
+        const rule: AlertRule = {
+            id: crypto.randomUUID(),
+            orgId,
+            ...parseRule(body, this.metrics),
+            createdAt: now,
+            updatedAt: now
+        };
+        await this.rules.set(rule.id, rule);
+        return rule;
+    }
+
+    /**
+     * Apply changes to a rule. Null if the organization has no such rule.
+     */
+    async updateRule(orgId: string, ruleId: string, body: unknown): Promise<AlertRule | null> {
+        const existing = await this.getRule(orgId, ruleId);
+        if (!existing) {
+            return null;
+        }
+
+        const rule: AlertRule = {
+            ...existing,
+            ...parseRule(body, this.metrics, existing),
+            updatedAt: new Date().toISOString()
+        };
+        await this.rules.set(rule.id, rule);
+        return rule;
+    }
+
+    /**
+     * Delete a rule along with where it stood on each station
+     */
+    async deleteRule(orgId: string, ruleId: string): Promise<boolean> {
+        if (!(await this.getRule(orgId, ruleId))) {
+            return false;
+        }
+
+        await this.rules.delete(ruleId);
+        for (const [key, state] of await this.states.entries()) {
+            if (state.ruleId === ruleId) {
+                await this.states.delete(key);
+            }
+        }
+        return true;
+    }
+
+    async activeAlerts(orgId: string): Promise<AlertState[]> {
+        return (await this.states.entries())
+            .map(([, state]) => state)
+            .filter(state => state.orgId === orgId && state.active);
+    }
+
+    /**
+     * Check a station reading against the organization's rules, publishing every alert it raises or clears
+     */
+    async evaluate(orgId: string, station: Entity, observation: AlertObservation): Promise<AlertEvent[]> {
+        const events: AlertEvent[] = [];
+        const observedAt = Date.parse(observation.timestamp);
+
+        for (const rule of await this.listRules(orgId)) {
+            if (!rule.enabled || (rule.stationIds && !rule.stationIds.includes(station.id))) {
+                continue;
+            }
+
+            const value = observation[rule.metric];
+            if (typeof value !== 'number' || !isFinite(value)) {
+                continue;
+            }
+
+            const key = stateKey(rule.id, station.id);
+            const state: AlertState = (await this.states.get(key)) || {
+                ruleId: rule.id,
+                orgId,
+                stationId: station.id,
+                active: false,
+                alertId: null,
+                raisedAt: null,
+                clearedAt: null,
+                lastValue: null,
+                entityId: null
+            };
+            let next: AlertState = { ...state, lastValue: value };
+
+            if (!state.active && isTriggered(rule, value)) {
+                const coolingDown = state.raisedAt !== null &&
+                    observedAt - Date.parse(state.raisedAt) < rule.cooldownSeconds * 1000;
+                if (!coolingDown) {
+                    const event: AlertEvent = {
+                        alertId: crypto.randomUUID(),
+                        state: 'raised',
+                        rule,
+                        station,
+                        value,
+                        raisedAt: observation.timestamp,
+                        clearedAt: null,
+                        entityId: null
+                    };
+                    event.entityId = await this.publishEvent(orgId, event);
+                    events.push(event);
+                    next = { ...next, active: true, alertId: event.alertId, raisedAt: event.raisedAt, clearedAt: null, entityId: event.entityId };
+                }
+            } else if (state.active && isCleared(rule, value)) {
+                const event: AlertEvent = {
+                    alertId: state.alertId!,
+                    state: 'cleared',
+                    rule,
+                    station,
+                    value,
+                    raisedAt: state.raisedAt!,
+                    clearedAt: observation.timestamp,
+                    entityId: state.entityId
+                };
+                await this.publishEvent(orgId, event);
+                events.push(event);
+                next = { ...next, active: false, clearedAt: event.clearedAt };
+            }
+
+            await this.states.set(key, next);
+        }
+
+        return events;
+    }
+
+    async removeStation(orgId: string, stationId: string) {
+        for (const [key, state] of await this.states.entries()) {
+            if (state.orgId === orgId && state.stationId === stationId) {
+                await this.states.delete(key);
+            }
+        }
+    }
+
+    async removeOrganization(orgId: string) {
+        for (const rule of await this.listRules(orgId)) {
+            await this.rules.delete(rule.id);
+        }
+        for (const [key, state] of await this.states.entries()) {
+            if (state.orgId === orgId) {
+                await this.states.delete(key);
+            }
+        }
+    }
+
+    private async publishEvent(orgId: string, event: AlertEvent): Promise<string | null> {
+        console.log(`Alert ${event.state}: "${event.rule.name}" on station ${event.station.id} (org ${orgId}), ` +
+            `${event.rule.metric} = ${event.value}`);
+
+        // The alert still counts as raised or cleared; publishing is retried by the feed queue where it can be
+        try {
+            return await this.publish(orgId, event);
+        } catch (error: any) {
+            console.error(`Failed to publish alert ${event.alertId}:`, error.message);
+            return event.entityId;
+        }
+    }
+}
@@ -0,0 +1,93 @@
+import * as dotenv from 'dotenv';
+import * as path from 'path';
+import { ResilienceOptions } from './resilience';
+
+// Load environment variables from .env file
+dotenv.config();
+
+// Configuration
+export const config = {
+    PORT: process.env.PORT || 3001,
+    LEGION_API_URL: process.env.LEGION_API_URL || 'http://localhost:9876',
+    CLIENT_ID: process.env.CLIENT_ID || '', // Will be set after integration creation
+    CLIENT_SECRET: process.env.CLIENT_SECRET || '', // Optional for public clients
+    INTEGRATION_ID: process.env.INTEGRATION_ID || '', // Written to .env by the setup script
+    REDIRECT_URI: process.env.REDIRECT_URI || 'http://localhost:3001/oauth/callback',
+    OPENWEATHER_API_KEY: process.env.OPENWEATHER_API_KEY || '',
+    // Reject authorization codes that were not issued with our PKCE challenge (e.g. externally initiated flows)
+    REQUIRE_PKCE: process.env.REQUIRE_PKCE === 'true',
+    // Allowed clock difference when checking token exp/nbf
+    JWT_CLOCK_SKEW_SECONDS: parseInt(process.env.JWT_CLOCK_SKEW_SECONDS || '60', 10),
+    // Shared secret Legion signs uninstall/deactivation webhooks with
+    WEBHOOK_SECRET: process.env.WEBHOOK_SECRET || '',
+    // What to do with an org's weather stations when Legion reports an uninstall: none, deactivate or delete
+    UNINSTALL_STATION_CLEANUP: process.env.UNINSTALL_STATION_CLEANUP || 'none',
+    // Client used by headless devices for the Device Authorization Grant (see device-login.ts)
+    DEVICE_CLIENT_ID: process.env.DEVICE_CLIENT_ID || process.env.CLIENT_ID || '',
+    DEVICE_CLIENT_SECRET: process.env.DEVICE_CLIENT_SECRET || '',
+    DEVICE_SCOPE: process.env.DEVICE_SCOPE || '',
+    // Refresh access tokens this many seconds before they expire
+    TOKEN_REFRESH_MARGIN_SECONDS: parseInt(process.env.TOKEN_REFRESH_MARGIN_SECONDS || '30', 10),
+    // Where organizations, tokens and caches are kept: 'memory' or 'file'
+    STORE_DRIVER: process.env.STORE_DRIVER || 'memory',
+    STORE_PATH: process.env.STORE_PATH || path.join(__dirname, '..', 'data', 'store.json'),
+    // Secret used to encrypt tokens at rest (required by the file store)
+    TOKEN_ENCRYPTION_KEY: process.env.TOKEN_ENCRYPTION_KEY || '',
+    // Outbound calls to Legion and OpenWeather: per-attempt timeout and retries with exponential backoff
+    HTTP_TIMEOUT_MS: parseInt(process.env.HTTP_TIMEOUT_MS || '10000', 10),
+    HTTP_MAX_RETRIES: parseInt(process.env.HTTP_MAX_RETRIES || '3', 10),
+    HTTP_RETRY_BASE_DELAY_MS: parseInt(process.env.HTTP_RETRY_BASE_DELAY_MS || '250', 10),
+    HTTP_RETRY_MAX_DELAY_MS: parseInt(process.env.HTTP_RETRY_MAX_DELAY_MS || '10000', 10),
+    // Stop calling an upstream after this many consecutive failures, and try again after the reset timeout
+    CIRCUIT_FAILURE_THRESHOLD: parseInt(process.env.CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+    CIRCUIT_RESET_TIMEOUT_MS: parseInt(process.env.CIRCUIT_RESET_TIMEOUT_MS || '30000', 10),
+    // Feed messages waiting for Legion: most kept before the oldest go to dead letters, and how often to replay them
+    FEED_QUEUE_MAX_SIZE: parseInt(process.env.FEED_QUEUE_MAX_SIZE || '10000', 10),
+    FEED_QUEUE_RETRY_INTERVAL_MS: parseInt(process.env.FEED_QUEUE_RETRY_INTERVAL_MS || '30000', 10),
+    // Feed messages are sent in batches per org: at most this many, and messages wait at most this long for a batch in flight
+    FEED_BATCH_MAX_SIZE: parseInt(process.env.FEED_BATCH_MAX_SIZE || '50', 10),
+    FEED_BATCH_MAX_WAIT_MS: parseInt(process.env.FEED_BATCH_MAX_WAIT_MS || '500', 10),
+    // Stations posted in parallel per batch when Legion has no bulk endpoint
+    FEED_BATCH_CONCURRENCY: parseInt(process.env.FEED_BATCH_CONCURRENCY || '5', 10),
+    // How often the weather station cache is reconciled with Legion
+    STATION_RECONCILE_INTERVAL_MS: parseInt(process.env.STATION_RECONCILE_INTERVAL_MS || '600000', 10),
+    // Most feed messages read from Legion for one downsampled history request
+    HISTORY_MAX_MESSAGES: parseInt(process.env.HISTORY_MAX_MESSAGES || '10000', 10),
+    // Automatic station polling: on unless set to 'false'
+    POLL_ENABLED: process.env.POLL_ENABLED !== 'false',
+    // Poll interval for stations without their own, and the shortest one a station may set
+    POLL_DEFAULT_INTERVAL_MS: parseInt(process.env.POLL_DEFAULT_INTERVAL_MS || '600000', 10),
+    POLL_MIN_INTERVAL_MS: parseInt(process.env.POLL_MIN_INTERVAL_MS || '60000', 10),
+    // Random spread applied to every interval, as a fraction of it
+    POLL_JITTER_RATIO: parseFloat(process.env.POLL_JITTER_RATIO || '0.1'),
+    // Polls in flight at once across all organizations
+    POLL_CONCURRENCY: parseInt(process.env.POLL_CONCURRENCY || '4', 10),
+    // How often the scheduler looks for stations that are due
+    POLL_TICK_MS: parseInt(process.env.POLL_TICK_MS || '5000', 10),
+    // Scheduled polls fetch a new forecast once the station's latest one is this old
+    FORECAST_REFRESH_INTERVAL_MS: parseInt(process.env.FORECAST_REFRESH_INTERVAL_MS || '10800000', 10),
+    // Weather provider for organizations and stations that haven't picked one: openweather, open-meteo or mock
+    WEATHER_PROVIDER: process.env.WEATHER_PROVIDER || 'openweather',
+    // Weather provider responses are reused for this long, keyed by URL, coordinates and units
+    WEATHER_CACHE_TTL_MS: parseInt(process.env.WEATHER_CACHE_TTL_MS || '600000', 10),
+    WEATHER_CACHE_MAX_ENTRIES: parseInt(process.env.WEATHER_CACHE_MAX_ENTRIES || '1000', 10),
+    // Plan limits on provider calls (0 = none). Defaults match the free plans: OpenWeather 60/min and 1M/month, Open-Meteo 600/min and 10k/day
+    OPENWEATHER_CALLS_PER_MINUTE: parseInt(process.env.OPENWEATHER_CALLS_PER_MINUTE || '60', 10),
+    OPENWEATHER_CALLS_PER_DAY: parseInt(process.env.OPENWEATHER_CALLS_PER_DAY || '33000', 10),
+    OPEN_METEO_CALLS_PER_MINUTE: parseInt(process.env.OPEN_METEO_CALLS_PER_MINUTE || '600', 10),
+    OPEN_METEO_CALLS_PER_DAY: parseInt(process.env.OPEN_METEO_CALLS_PER_DAY || '10000', 10),
+    // Share of each limit kept for interactive requests; scheduled polls are deferred once the rest is used
+    QUOTA_POLL_RESERVE_RATIO: parseFloat(process.env.QUOTA_POLL_RESERVE_RATIO || '0.2')
+};
+
+/**
+ * Timeouts, retries and circuit breaking for every upstream we call
+ */
+export const resilienceOptions: ResilienceOptions = {
+    timeoutMs: config.HTTP_TIMEOUT_MS,
+    maxRetries: config.HTTP_MAX_RETRIES,
+    baseDelayMs: config.HTTP_RETRY_BASE_DELAY_MS,
+    maxDelayMs: config.HTTP_RETRY_MAX_DELAY_MS,
+    failureThreshold: config.CIRCUIT_FAILURE_THRESHOLD,
+    resetTimeoutMs: config.CIRCUIT_RESET_TIMEOUT_MS
+};
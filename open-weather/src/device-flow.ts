@@ -0,0 +1,155 @@
+import { TokenSet } from './oauth';
+import { getOidcEndpoints, realmUpstream } from './oidc';
+
+/**
+ * OAuth 2.0 Device Authorization Grant (RFC 8628) for headless integrations, e.g. gateway boxes
+ * without a browser. The user approves the device from any other machine.
+ */
+export interface DeviceFlowOptions {
+    legionApiUrl: string;
+    clientId: string;
+    clientSecret?: string;
+    scope?: string;
+}
+
+export interface DeviceAuthorization {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    verification_uri_complete?: string;
+    expires_in: number;
+    interval?: number;
+}
+
+export type DeviceFlowErrorCode = 'expired_token' | 'access_denied' | 'unsupported';
+
+export class DeviceFlowError extends Error {
+    constructor(public readonly code: DeviceFlowErrorCode, message: string) {
+        super(message);
+        this.name = 'DeviceFlowError';
+    }
+}
+
+// RFC 8628 defaults: poll every 5 seconds and back off 5 more on slow_down
+const DEFAULT_POLL_INTERVAL_SECONDS = 5;
+const SLOW_DOWN_INCREMENT_SECONDS = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function clientParams(options: DeviceFlowOptions): Record<string, string> {
+    const params: Record<string, string> = { client_id: options.clientId };
+
+    // Only add client_secret if it's configured
+    if (options.clientSecret) {
+        params.client_secret = options.clientSecret;
+    }
+
+    return params;
+}
+
+async function postForm(url: string, params: Record<string, string>) {
+    return realmUpstream.request({
+        method: 'POST',
+        url,
+        data: new URLSearchParams(params),
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    });
+}
+
+/**
+ * Ask the realm for a device code and the user code to show
+ */
+export async function startDeviceAuthorization(options: DeviceFlowOptions): Promise<DeviceAuthorization> {
+    const { deviceAuthorizationEndpoint } = await getOidcEndpoints(options.legionApiUrl);
+    if (!deviceAuthorizationEndpoint) {
+        throw new DeviceFlowError('unsupported', 'Realm does not advertise a device authorization endpoint');
+    }
+
+    const params = clientParams(options);
+    if (options.scope) {
+        params.scope = options.scope;
+    }
+
+    const response = await postForm(deviceAuthorizationEndpoint, params);
+    return response.data;
+}
+
+/**
+ * Default prompt: print where to go and which code to enter
+ */
+export function displayUserCode(authorization: DeviceAuthorization) {
+    console.log('\n🔑 To authorize this device:');
+    console.log(`   1. Open ${authorization.verification_uri}`);
+    console.log(`   2. Enter the code: ${authorization.user_code}`);
+    if (authorization.verification_uri_complete) {
+        console.log(`   Or open directly: ${authorization.verification_uri_complete}`);
+    }
+    console.log(`   The code expires in ${Math.round(authorization.expires_in / 60)} minutes.\n`);
+}
+
+/**
+ * Poll the token endpoint until the user approves or denies the device, or the code expires
+ */
+export async function pollForTokens(options: DeviceFlowOptions, authorization: DeviceAuthorization): Promise<TokenSet> {
+    const { tokenEndpoint } = await getOidcEndpoints(options.legionApiUrl);
+    const deadline = Date.now() + authorization.expires_in * 1000;
+    let intervalSeconds = authorization.interval || DEFAULT_POLL_INTERVAL_SECONDS;
+
+    while (Date.now() < deadline) {
+        await sleep(intervalSeconds * 1000);
+
+        try {
+            const response = await postForm(tokenEndpoint, {
+                ...clientParams(options),
+                grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+                device_code: authorization.device_code
+            });
+            return response.data;
+        } catch (error: any) {
+            const errorCode = error.response?.data?.error;
+
+            switch (errorCode) {
+                case 'authorization_pending':
+                    continue;
+                case 'slow_down':
+                    intervalSeconds += SLOW_DOWN_INCREMENT_SECONDS;
+                    console.log(`Polling too fast, slowing down to every ${intervalSeconds}s`);
+                    continue;
+                case 'expired_token':
+                    throw new DeviceFlowError('expired_token', 'Device code expired before it was approved');
+                case 'access_denied':
+                    throw new DeviceFlowError('access_denied', 'Authorization was denied');
+                default:
+                    throw error;
+            }
+        }
+    }
+
+    throw new DeviceFlowError('expired_token', 'Device code expired before it was approved');
+}
+
+/**
+ * Run the whole flow: start, show the user code, then wait for tokens
+ */
+export async function runDeviceFlow(
+    options: DeviceFlowOptions,
+    prompt: (authorization: DeviceAuthorization) => void = displayUserCode
+): Promise<TokenSet> {
+    const authorization = await startDeviceAuthorization(options);
+    prompt(authorization);
+    return pollForTokens(options, authorization);
+}
+
+/**
+ * Refresh tokens obtained through the device flow. Pass this to the TokenManager as its refresh grant.
+ */
+export async function refreshDeviceTokens(options: DeviceFlowOptions, refreshToken: string): Promise<TokenSet> {
+    const { tokenEndpoint } = await getOidcEndpoints(options.legionApiUrl);
+
+    const response = await postForm(tokenEndpoint, {
+        ...clientParams(options),
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken
+    });
+    return response.data;
+}
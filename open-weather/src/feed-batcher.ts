@@ -0,0 +1,251 @@
+import { FeedMessageNotSentError } from './feed-queue';
+import { BulkFeedMessageResult, CreateFeedMessageRequest, LegionApiError, LegionClient } from './legion-client';
+
+/**
+ * Collects feed messages across stations and sends them to Legion in batches, per organization.
+ * Messages go out right away while nothing is in flight for their organization; those submitted
+ * while a batch is being sent wait for it to finish and then go out together, or sooner once the
+ * batch is full or its oldest message has waited long enough. A batch is sent through Legion's
+ * bulk endpoint where there is one, otherwise as single posts a few at a time (one station's in
+ * order). Every message gets its own result, so one bad reading doesn't fail the rest of its batch;
+ * a station's messages after one that failed are not sent, so they can't overtake it.
+ */
+export interface FeedBatcherOptions {
+    maxBatchSize: number;
+    // Longest a message waits for a batch in flight before it is sent anyway
+    maxWaitMs: number;
+    // Stations posted in parallel per batch when there is no bulk endpoint
+    concurrency: number;
+}
+
+export type FeedMessageResult =
+    | { ok: true; message: CreateFeedMessageRequest<any> }
+    | { ok: false; message: CreateFeedMessageRequest<any>; error: Error };
+
+export interface FeedBatcherStats {
+    batches: number;
+    bulkBatches: number;
+    messagesSent: number;
+    messagesFailed: number;
+    buffered: number;
+    lastBatchAt: Date | null;
+}
+
+interface PendingMessage {
+    message: CreateFeedMessageRequest<any>;
+    resolve: () => void;
+    reject: (error: Error) => void;
+}
+
+interface OrgBuffer {
+    messages: PendingMessage[];
+    timer: NodeJS.Timeout | null;
+}
+
+// Statuses meaning this Legion has no bulk endpoint
+const BULK_UNSUPPORTED_STATUSES = [404, 405, 501];
+
+// Look for the bulk endpoint again after this long, in case Legion was upgraded
+const BULK_RECHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const BULK_PATH = '/feeds/messages/batch';
+
+/**
+ * Run tasks with at most `limit` in flight
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            await task(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+function bulkItemError(item: BulkFeedMessageResult): LegionApiError | null {
+    const failed = !!item.error || (item.status !== undefined && item.status >= 300);
+    if (!failed) {
+        return null;
+    }
+
+    const code = typeof item.error === 'string' ? item.error : item.error?.code || null;
+    return new LegionApiError('POST', BULK_PATH, item.status ?? null, code, item);
+}
+
+export class FeedBatcher {
+    private readonly buffers = new Map<string, OrgBuffer>();
+    // orgId -> when we last found its Legion without a bulk endpoint
+    private readonly bulkUnsupportedAt = new Map<string, number>();
+    // orgId -> batches being sent
+    private readonly inFlight = new Map<string, number>();
+    private readonly counters = { batches: 0, bulkBatches: 0, messagesSent: 0, messagesFailed: 0 };
+    private lastBatchAt: Date | null = null;
+
+    constructor(
+        private readonly clientFor: (orgId: string) => LegionClient,
+        private readonly options: FeedBatcherOptions
+    ) {}
+
+    /**
+     * Add messages to the organization's next batch, in order, and wait for each one's result
+     */
+    async submitAll(orgId: string, messages: CreateFeedMessageRequest<any>[]): Promise<FeedMessageResult[]> {
+        let buffer = this.buffers.get(orgId);
+        if (!buffer) {
+            buffer = { messages: [], timer: null };
+            this.buffers.set(orgId, buffer);
+        }
+
+        const delivered = messages.map(message => new Promise<void>((resolve, reject) => {
+            buffer!.messages.push({ message, resolve, reject });
+        }));
+
+        if (!this.inFlight.get(orgId) || buffer.messages.length >= this.options.maxBatchSize) {
+            this.flushOrganization(orgId);
+        } else if (!buffer.timer) {
+            buffer.timer = setTimeout(() => this.flushOrganization(orgId), this.options.maxWaitMs);
+        }
+
+        const settled = await Promise.allSettled(delivered);
+        return settled.map((outcome, index): FeedMessageResult => outcome.status === 'fulfilled'
+            ? { ok: true, message: messages[index] }
+            : { ok: false, message: messages[index], error: outcome.reason });
+    }
+
+    /**
+     * Send everything that is buffered right away, e.g. on shutdown
+     */
+    async flushAll(): Promise<void> {
+        await Promise.all(Array.from(this.buffers.keys()).map(orgId => this.flushOrganization(orgId)));
+    }
+
+    stats(): FeedBatcherStats {
+        let buffered = 0;
+        for (const buffer of this.buffers.values()) {
+            buffered += buffer.messages.length;
+        }
+
+        return { ...this.counters, buffered, lastBatchAt: this.lastBatchAt };
+    }
+
+    private async flushOrganization(orgId: string): Promise<void> {
+        const buffer = this.buffers.get(orgId);
+        if (!buffer) {
+            return;
+        }
+
+        // Take the whole buffer; messages submitted from now on start the next batch
+        if (buffer.timer) {
+            clearTimeout(buffer.timer);
+        }
+        this.buffers.delete(orgId);
+        this.inFlight.set(orgId, (this.inFlight.get(orgId) || 0) + 1);
+
+        // Stations with a message that failed; their later messages stay behind
+        const failedEntities = new Set<string>();
+        try {
+            for (let start = 0; start < buffer.messages.length; start += this.options.maxBatchSize) {
+                await this.sendBatch(orgId, buffer.messages.slice(start, start + this.options.maxBatchSize), failedEntities);
+            }
+        } finally {
+            const inFlight = this.inFlight.get(orgId)! - 1;
+            if (inFlight > 0) {
+                this.inFlight.set(orgId, inFlight);
+            } else {
+                this.inFlight.delete(orgId);
+            }
+        }
+
+        // What was submitted meanwhile doesn't need to wait any longer
+        if (!this.inFlight.get(orgId) && this.buffers.has(orgId)) {
+            await this.flushOrganization(orgId);
+        }
+    }
+
+    private async sendBatch(orgId: string, messages: PendingMessage[], failedEntities: Set<string>): Promise<void> {
+        const batch: PendingMessage[] = [];
+        for (const pending of messages) {
+            if (failedEntities.has(pending.message.entity_id)) {
+                this.settle(pending, new FeedMessageNotSentError());
+            } else {
+                batch.push(pending);
+            }
+        }
+        if (batch.length === 0) {
+            return;
+        }
+
+        this.counters.batches++;
+        this.lastBatchAt = new Date();
+
+        if (batch.length > 1 && this.bulkMayBeSupported(orgId)) {
+            try {
+                const results = await this.clientFor(orgId).createFeedMessages(batch.map(pending => pending.message));
+                this.counters.bulkBatches++;
+
+                batch.forEach((pending, index) => {
+                    // A bare success without per-message results means everything went in
+                    const error = results[index] ? bulkItemError(results[index]) : null;
+                    if (error) {
+                        failedEntities.add(pending.message.entity_id);
+                    }
+                    this.settle(pending, error);
+                });
+                return;
+            } catch (error: any) {
+                if (!(error instanceof LegionApiError) || error.status === null || !BULK_UNSUPPORTED_STATUSES.includes(error.status)) {
+                    // The whole call failed; every message in it failed the same way
+                    batch.forEach(pending => {
+                        failedEntities.add(pending.message.entity_id);
+                        this.settle(pending, error);
+                    });
+                    return;
+                }
+
+                console.log(`Legion for org ${orgId} has no bulk feed endpoint, sending messages individually`);
+                this.bulkUnsupportedAt.set(orgId, Date.now());
+            }
+        }
+
+        // Stations side by side, each station's messages one after another so they arrive in order
+        const byEntity = new Map<string, PendingMessage[]>();
+        for (const pending of batch) {
+            byEntity.set(pending.message.entity_id, [...(byEntity.get(pending.message.entity_id) || []), pending]);
+        }
+
+        await runWithConcurrency(Array.from(byEntity.values()), this.options.concurrency, async entityMessages => {
+            for (const pending of entityMessages) {
+                if (failedEntities.has(pending.message.entity_id)) {
+                    this.settle(pending, new FeedMessageNotSentError());
+                    continue;
+                }
+                try {
+                    await this.clientFor(orgId).createFeedMessage(pending.message);
+                    this.settle(pending, null);
+                } catch (error: any) {
+                    failedEntities.add(pending.message.entity_id);
+                    this.settle(pending, error);
+                }
+            }
+        });
+    }
+
+    private bulkMayBeSupported(orgId: string): boolean {
+        const unsupportedAt = this.bulkUnsupportedAt.get(orgId);
+        return !unsupportedAt || Date.now() - unsupportedAt > BULK_RECHECK_INTERVAL_MS;
+    }
+
+    private settle(pending: PendingMessage, error: Error | null) {
+        if (error) {
+            // Held-back messages weren't sent, so they didn't fail either
+            if (!(error instanceof FeedMessageNotSentError)) {
+                this.counters.messagesFailed++;
+            }
+            pending.reject(error);
+        } else {
+            this.counters.messagesSent++;
+            pending.resolve();
+        }
+    }
+}
@@ -0,0 +1,355 @@
+import crypto from 'crypto';
+import { FeedPayloadValidationError } from './feed-schemas';
+import { LegionApiError } from './legion-client';
+import { Collection, DeadLetterFeedMessage, QueuedFeedMessage } from './store';
+
+/**
+ * Store-and-forward queue for feed messages. Every message is written to the store before it is
+ * sent, so readings taken while Legion is unreachable are replayed once it is back. Messages for
+ * the same entity are delivered strictly in order with their original `recorded_at`; a backlog
+ * goes out in one call.
+ */
+export interface FeedMessageInput {
+    orgId: string;
+    entityId: string;
+    feedName: string;
+    recordedAt: string;
+    payload: Record<string, unknown>;
+}
+
+export type PublishStatus = 'delivered' | 'queued' | 'dead_lettered';
+
+export interface PublishResult {
+    id: string;
+    status: PublishStatus;
+    error?: string | null;
+}
+
+export interface FeedQueueOptions {
+    maxSize: number;
+    retryIntervalMs: number;
+}
+
+export interface FeedQueueStats {
+    pending: number;
+    deadLetters: number;
+    maxSize: number;
+    lastFlushAt: Date | null;
+}
+
+/**
+ * Sends an entity's messages to Legion together, oldest first, and sends nothing after the first one that fails
+ * (those get a FeedMessageNotSentError). Returns each message's error, or null once it was accepted.
+ */
+export type FeedMessageSender = (orgId: string, messages: QueuedFeedMessage[]) => Promise<Array<Error | null>>;
+
+/**
+ * A message the sender held back because an earlier one for the same entity failed
+ */
+export class FeedMessageNotSentError extends Error {
+    constructor() {
+        super('Not sent: an earlier message for this entity failed');
+        this.name = 'FeedMessageNotSentError';
+    }
+}
+
+// Client errors that won't go away by sending the same message again
+const TRANSIENT_CLIENT_STATUSES = [401, 408, 429];
+
+function isPermanentFailure(error: any): boolean {
+    // A payload that no longer matches its schema will never be accepted
+    if (error instanceof FeedPayloadValidationError) {
+        return true;
+    }
+
+    return error instanceof LegionApiError &&
+        error.status !== null &&
+        error.status >= 400 && error.status < 500 &&
+        !TRANSIENT_CLIENT_STATUSES.includes(error.status);
+}
+
+function byDeliveryOrder(a: QueuedFeedMessage, b: QueuedFeedMessage) {
+    return a.sequence - b.sequence;
+}
+
+const entityKey = (orgId: string, entityId: string) => `${orgId}:${entityId}`;
+
+export class FeedQueue {
+    private firstSequence: Promise<number> | null = null;
+    private issuedSequences = 0;
+    private retryTimer: NodeJS.Timeout | null = null;
+    private lastFlushAt: Date | null = null;
+    // One drain per entity at a time keeps its messages in order
+    private readonly draining = new Map<string, Promise<void>>();
+
+    constructor(
+        private readonly queue: Collection<QueuedFeedMessage>,
+        private readonly deadLetters: Collection<DeadLetterFeedMessage>,
+        private readonly send: FeedMessageSender,
+        private readonly options: FeedQueueOptions
+    ) {}
+
+    /**
+     * Start replaying queued messages in the background
+     */
+    start() {
+        if (this.retryTimer) {
+            return;
+        }
+        this.retryTimer = setInterval(() => {
+            this.flush().catch(error => console.error('Feed queue flush failed:', error));
+        }, this.options.retryIntervalMs);
+
+        // Deliver whatever was left over from the last run
+        this.flush().catch(error => console.error('Feed queue flush failed:', error));
+    }
+
+    stop() {
+        if (this.retryTimer) {
+            clearInterval(this.retryTimer);
+            this.retryTimer = null;
+        }
+    }
+
+    /**
+     * Queue a message and try to deliver it (and anything queued before it for the same entity) now
+     */
+    async publish(input: FeedMessageInput): Promise<PublishResult> {
+        const message = await this.enqueue(input);
+        await this.drainEntity(input.orgId, input.entityId);
+        return this.resultFor(message.id);
+    }
+
+    /**
+     * Queue a set of messages together, then deliver them. Messages for the same entity keep their order.
+     */
+    async publishAll(inputs: FeedMessageInput[]): Promise<PublishResult[]> {
+        const messages: QueuedFeedMessage[] = [];
+        for (const input of inputs) {
+            messages.push(await this.enqueue(input));
+        }
+
+        const entities = new Map(inputs.map(input => [entityKey(input.orgId, input.entityId), input]));
+        await Promise.all(Array.from(entities.values()).map(input => this.drainEntity(input.orgId, input.entityId)));
+
+        return Promise.all(messages.map(message => this.resultFor(message.id)));
+    }
+
+    async enqueue(input: FeedMessageInput): Promise<QueuedFeedMessage> {
+        const message: QueuedFeedMessage = {
+            id: crypto.randomUUID(),
+            orgId: input.orgId,
+            entityId: input.entityId,
+            feedName: input.feedName,
+            sequence: await this.takeSequence(),
+            recordedAt: input.recordedAt,
+            payload: input.payload,
+            enqueuedAt: new Date().toISOString(),
+            attempts: 0,
+            lastAttemptAt: null,
+            lastError: null
+        };
+
+        await this.enforceSizeCap();
+        await this.queue.set(message.id, message);
+        return message;
+    }
+
+    /**
+     * Try to deliver everything that is queued, optionally just for one organization.
+     * Entities are drained side by side so their messages can share batches.
+     */
+    async flush(orgId?: string): Promise<void> {
+        const entities = new Map<string, QueuedFeedMessage>();
+        for (const message of await this.pending(orgId)) {
+            entities.set(entityKey(message.orgId, message.entityId), message);
+        }
+
+        await Promise.all(Array.from(entities.values()).map(message => this.drainEntity(message.orgId, message.entityId)));
+        this.lastFlushAt = new Date();
+    }
+
+    async pending(orgId?: string): Promise<QueuedFeedMessage[]> {
+        return (await this.queue.entries())
+            .map(([, message]) => message)
+            .filter(message => !orgId || message.orgId === orgId)
+            .sort(byDeliveryOrder);
+    }
+
+    async deadLettered(orgId?: string): Promise<DeadLetterFeedMessage[]> {
+        return (await this.deadLetters.entries())
+            .map(([, message]) => message)
+            .filter(message => !orgId || message.orgId === orgId)
+            .sort(byDeliveryOrder);
+    }
+
+    /**
+     * Move dead letters back into the queue (all of the organization's, or just the given IDs) and deliver them
+     */
+    async retryDeadLetters(orgId: string, ids?: string[]): Promise<PublishResult[]> {
+        const selected = (await this.deadLettered(orgId)).filter(message => !ids || ids.includes(message.id));
+
+        for (const { deadLetteredAt, reason, status, ...message } of selected) {
+            // Keep the original sequence so it goes out ahead of anything queued since
+            await this.queue.set(message.id, { ...message, lastError: reason });
+            await this.deadLetters.delete(message.id);
+        }
+
+        const results: PublishResult[] = [];
+        for (const message of selected) {
+            await this.drainEntity(message.orgId, message.entityId);
+            results.push(await this.resultFor(message.id));
+        }
+        return results;
+    }
+
+    /**
+     * Drop dead letters for good (all of the organization's, or just the given IDs)
+     */
+    async discardDeadLetters(orgId: string, ids?: string[]): Promise<number> {
+        let discarded = 0;
+        for (const message of await this.deadLettered(orgId)) {
+            if (!ids || ids.includes(message.id)) {
+                await this.deadLetters.delete(message.id);
+                discarded++;
+            }
+        }
+        return discarded;
+    }
+
+    /**
+     * Forget everything queued for an organization, e.g. when it disconnects
+     */
+    async purgeOrganization(orgId: string): Promise<number> {
+        let purged = 0;
+        for (const message of await this.pending(orgId)) {
+            await this.queue.delete(message.id);
+            purged++;
+        }
+        await this.discardDeadLetters(orgId);
+        return purged;
+    }
+
+    async stats(): Promise<FeedQueueStats> {
+        return {
+            pending: (await this.queue.entries()).length,
+            deadLetters: (await this.deadLetters.entries()).length,
+            maxSize: this.options.maxSize,
+            lastFlushAt: this.lastFlushAt
+        };
+    }
+
+    /**
+     * Where a message ended up after a delivery attempt
+     */
+    private async resultFor(id: string): Promise<PublishResult> {
+        const queued = await this.queue.get(id);
+        if (queued) {
+            return { id, status: 'queued', error: queued.lastError };
+        }
+
+        const deadLetter = await this.deadLetters.get(id);
+        if (deadLetter) {
+            return { id, status: 'dead_lettered', error: deadLetter.reason };
+        }
+
+        return { id, status: 'delivered' };
+    }
+
+    private async drainEntity(orgId: string, entityId: string): Promise<void> {
+        const key = entityKey(orgId, entityId);
+        const previous = this.draining.get(key) || Promise.resolve();
+
+        const drain = previous.then(() => this.deliverInOrder(orgId, entityId)).finally(() => {
+            if (this.draining.get(key) === drain) {
+                this.draining.delete(key);
+            }
+        });
+        this.draining.set(key, drain);
+
+        return drain;
+    }
+
+    /**
+     * Send an entity's pending messages in one go, oldest first, stopping at the first one that can't be delivered yet
+     */
+    private async deliverInOrder(orgId: string, entityId: string): Promise<void> {
+        for (;;) {
+            const attemptedAt = new Date().toISOString();
+            const attempts = (await this.pending(orgId))
+                .filter(message => message.entityId === entityId)
+                .map((message): QueuedFeedMessage => ({ ...message, attempts: message.attempts + 1, lastAttemptAt: attemptedAt }));
+            if (attempts.length === 0) {
+                return;
+            }
+
+            const errors: any[] = await this.send(orgId, attempts);
+            const stop = errors.findIndex(error => error && !isPermanentFailure(error));
+
+            for (const [index, attempt] of attempts.slice(0, stop === -1 ? attempts.length : stop).entries()) {
+                const error = errors[index];
+                if (!error) {
+                    await this.queue.delete(attempt.id);
+                } else {
+                    console.warn(`Feed message ${attempt.id} can't be delivered (${error.message}), moving to dead letters`);
+                    await this.moveToDeadLetters(attempt, error.message, error.status ?? null);
+                }
+            }
+
+            if (stop === -1) {
+                return;
+            }
+
+            // Held back only because an earlier message was dead-lettered: send the rest now
+            if (errors[stop] instanceof FeedMessageNotSentError && stop > 0) {
+                continue;
+            }
+
+            // Leave it (and everything after it) for the next flush
+            await this.queue.set(attempts[stop].id, { ...attempts[stop], lastError: errors[stop].message });
+
+            // A bulk call can't be stopped halfway: drop what Legion stored anyway rather than send it twice
+            for (const [index, attempt] of attempts.entries()) {
+                if (index > stop && !errors[index]) {
+                    await this.queue.delete(attempt.id);
+                }
+            }
+            return;
+        }
+    }
+
+    private async moveToDeadLetters(message: QueuedFeedMessage, reason: string, status: number | null) {
+        await this.deadLetters.set(message.id, {
+            ...message,
+            lastError: reason,
+            deadLetteredAt: new Date().toISOString(),
+            reason,
+            status
+        });
+        await this.queue.delete(message.id);
+    }
+
+    /**
+     * Make room for one more message by pushing the oldest ones out to the dead letters
+     */
+    private async enforceSizeCap() {
+        const queued = await this.pending();
+        const excess = queued.length - this.options.maxSize + 1;
+
+        for (const message of queued.slice(0, Math.max(0, excess))) {
+            console.warn(`Feed queue full (${this.options.maxSize}), evicting message ${message.id}`);
+            await this.moveToDeadLetters(message, 'Evicted: feed queue full', null);
+        }
+    }
+
+    private async takeSequence(): Promise<number> {
+        // Continue after whatever survived the last run
+        if (!this.firstSequence) {
+            this.firstSequence = Promise.all([this.pending(), this.deadLettered()]).then(([queued, deadLetters]) =>
+                [...queued, ...deadLetters].reduce((max, message) => Math.max(max, message.sequence), 0) + 1
+            );
+        }
+        const issued = this.issuedSequences++;
+        return (await this.firstSequence) + issued;
+    }
+}
@@ -0,0 +1,338 @@
+/**
+ * Payload schemas for the feeds this integration publishes. Each feed's shape is written once as a
+ * JSON Schema (a small subset: objects of numbers, strings, booleans and objects of those); its
+ * TypeScript type is derived from the schema, the schema is registered with the Legion feed
+ * definition, and every payload is checked against it before it is pushed. Numeric properties
+ * carry the UCUM code of their unit in `unit` (see units.ts).
+ *
+ * Bump a feed's `version` whenever its schema changes. Organizations whose definition is older get
+ * it migrated in place when the change is listed in `migratesFrom`, or a new definition otherwise.
+ */
+export interface PropertySchema {
+    readonly type: 'number' | 'integer' | 'string' | 'boolean' | 'object';
+    readonly description?: string;
+    readonly unit?: string;
+    readonly minimum?: number;
+    readonly maximum?: number;
+    readonly enum?: readonly (string | number)[];
+    readonly format?: 'date-time';
+    // Nested objects only; their properties are all optional
+    readonly properties?: Readonly<Record<string, PropertySchema>>;
+    readonly additionalProperties?: boolean;
+}
+
+export interface ObjectSchema {
+    readonly type: 'object';
+    readonly properties: Readonly<Record<string, PropertySchema>>;
+    readonly required: readonly string[];
+    readonly additionalProperties: boolean;
+}
+
+export interface FeedSpec<S extends ObjectSchema = ObjectSchema> {
+    name: string;
+    description: string;
+    version: number;
+    // Earlier versions whose payloads are still valid under this schema (e.g. a field was added as optional)
+    migratesFrom: number[];
+    schema: S;
+}
+
+type ValueOf<P extends PropertySchema> =
+    P['type'] extends 'number' | 'integer' ? number :
+    P['type'] extends 'boolean' ? boolean :
+    P['type'] extends 'object' ? { -readonly [K in keyof NonNullable<P['properties']>]?: ValueOf<NonNullable<P['properties']>[K]> } :
+    string;
+
+type RequiredKeys<S extends ObjectSchema> = S['required'][number] & keyof S['properties'];
+type OptionalKeys<S extends ObjectSchema> = Exclude<keyof S['properties'], RequiredKeys<S>>;
+
+/**
+ * The payload type described by an object schema
+ */
+export type PayloadOf<S extends ObjectSchema> =
+    { -readonly [K in RequiredKeys<S>]: ValueOf<S['properties'][K]> } &
+    { -readonly [K in OptionalKeys<S>]?: ValueOf<S['properties'][K]> };
+
+/**
+ * A payload that doesn't match its feed's schema. This is a bug on our side, so it is never retried.
+ */
+export class FeedPayloadValidationError extends Error {
+    constructor(public readonly feedName: string, public readonly errors: string[]) {
+        super(`Invalid ${feedName} payload: ${errors.join('; ')}`);
+        this.name = 'FeedPayloadValidationError';
+    }
+}
+
+function checkProperty(name: string, property: PropertySchema, value: unknown): string | null {
+    switch (property.type) {
+        case 'number':
+        case 'integer':
+            if (typeof value !== 'number' || !isFinite(value)) {
+                return `${name} must be a number`;
+            }
+            if (property.type === 'integer' && !Number.isInteger(value)) {
+                return `${name} must be an integer`;
+            }
+            if (property.minimum !== undefined && value < property.minimum) {
+                return `${name} must be at least ${property.minimum}`;
+            }
+            if (property.maximum !== undefined && value > property.maximum) {
+                return `${name} must be at most ${property.maximum}`;
+            }
+            break;
+        case 'string':
+            if (typeof value !== 'string') {
+                return `${name} must be a string`;
+            }
+            if (property.format === 'date-time' && isNaN(Date.parse(value))) {
+                return `${name} must be an ISO 8601 date-time`;
+            }
+            break;
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                return `${name} must be a boolean`;
+            }
+            break;
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return `${name} must be an object`;
+            }
+            const errors = validatePayload({
+                type: 'object',
+                properties: property.properties || {},
+                required: [],
+                additionalProperties: property.additionalProperties ?? true
+            }, value);
+            if (errors.length > 0) {
+                return errors.map(error => `${name}.${error}`).join('; ');
+            }
+            break;
+        }
+    }
+
+    if (property.enum && !property.enum.includes(value as string | number)) {
+        return `${name} must be one of: ${property.enum.join(', ')}`;
+    }
+
+    return null;
+}
+
+/**
+ * Check a payload against a schema, returning every problem found
+ */
+export function validatePayload(schema: ObjectSchema, payload: unknown): string[] {
+    if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+        return ['payload must be an object'];
+    }
+
+    const errors: string[] = [];
+    const values = payload as Record<string, unknown>;
+
+    for (const name of schema.required) {
+        if (values[name] === undefined || values[name] === null) {
+            errors.push(`${name} is required`);
+        }
+    }
+
+    for (const [name, value] of Object.entries(values)) {
+        const property = schema.properties[name];
+        if (!property) {
+            if (!schema.additionalProperties) {
+                errors.push(`${name} is not allowed`);
+            }
+            continue;
+        }
+
+        // Optional fields may be left out or sent as null
+        if (value === undefined || value === null) {
+            continue;
+        }
+
+        const error = checkProperty(name, property, value);
+        if (error) {
+            errors.push(error);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Throw a FeedPayloadValidationError unless the payload matches the feed's schema
+ */
+export function assertValidPayload(spec: FeedSpec, payload: unknown) {
+    const errors = validatePayload(spec.schema, payload);
+    if (errors.length > 0) {
+        throw new FeedPayloadValidationError(spec.name, errors);
+    }
+}
+
+/**
+ * The unit of each property that has one, by property name
+ */
+export function fieldUnits(schema: ObjectSchema): Record<string, string> {
+    const units: Record<string, string> = {};
+    for (const [name, property] of Object.entries(schema.properties)) {
+        if (property.unit) {
+            units[name] = property.unit;
+        }
+    }
+    return units;
+}
+
+const WEATHER_CONDITIONS_SCHEMA = {
+    type: 'object',
+    properties: {
+        temperature: { type: 'number', unit: 'Cel', description: 'Air temperature (°C)' },
+        feels_like: { type: 'number', unit: 'Cel', description: 'Apparent temperature (°C)' },
+        humidity: { type: 'number', unit: '%', minimum: 0, maximum: 100, description: 'Relative humidity (%)' },
+        pressure: { type: 'number', unit: 'hPa', minimum: 0, description: 'Sea level pressure (hPa)' },
+        visibility: { type: 'number', unit: 'm', minimum: 0, description: 'Visibility (m)' },
+        wind_speed: { type: 'number', unit: 'm/s', minimum: 0, description: 'Wind speed (m/s)' },
+        wind_direction: { type: 'number', unit: 'deg', minimum: 0, maximum: 360, description: 'Wind direction (degrees)' },
+        weather: { type: 'string', description: 'Weather group, e.g. Rain' },
+        weather_description: { type: 'string', description: 'Weather condition within the group' },
+        clouds: { type: 'number', unit: '%', minimum: 0, maximum: 100, description: 'Cloudiness (%)' },
+        timestamp: { type: 'string', format: 'date-time', description: 'When the reading was taken' },
+        units: {
+            type: 'object',
+            description: 'UCUM code of the unit of each numeric field, e.g. Cel for °C',
+            properties: {
+                temperature: { type: 'string' },
+                feels_like: { type: 'string' },
+                humidity: { type: 'string' },
+                pressure: { type: 'string' },
+                visibility: { type: 'string' },
+                wind_speed: { type: 'string' },
+                wind_direction: { type: 'string' },
+                clouds: { type: 'string' }
+            },
+            additionalProperties: false
+        }
+    },
+    required: ['temperature', 'feels_like', 'humidity', 'pressure', 'wind_speed', 'weather', 'weather_description', 'clouds', 'timestamp'],
+    additionalProperties: false
+} as const satisfies ObjectSchema;
+
+export type WeatherConditionsPayload = PayloadOf<typeof WEATHER_CONDITIONS_SCHEMA>;
+
+export const WEATHER_CONDITIONS_FEED: FeedSpec<typeof WEATHER_CONDITIONS_SCHEMA> = {
+    name: 'weather_conditions',
+    description: 'Current weather conditions including temperature, humidity, pressure',
+    version: 2,
+    // Version 0: definitions created before schemas were registered; their payloads had the v1 shape.
+    // Version 2 added units; readings without them are in the same units.
+    migratesFrom: [0, 1],
+    schema: WEATHER_CONDITIONS_SCHEMA
+};
+
+// One message per forecast step. All steps of a run share forecast_id and issued_at; for any
+// valid_at, the step with the latest issued_at replaces those from older runs.
+const WEATHER_FORECAST_SCHEMA = {
+    type: 'object',
+    properties: {
+        forecast_id: { type: 'string', description: 'Identifies the forecast run this step belongs to' },
+        issued_at: { type: 'string', format: 'date-time', description: 'When the forecast run was fetched' },
+        valid_at: { type: 'string', format: 'date-time', description: 'Start of the 3-hour period the step forecasts' },
+        step: { type: 'integer', minimum: 0, description: 'Position of this step within its run' },
+        steps: { type: 'integer', minimum: 1, description: 'Number of steps in the run' },
+        temperature: { type: 'number', unit: 'Cel', description: 'Air temperature (°C)' },
+        feels_like: { type: 'number', unit: 'Cel', description: 'Apparent temperature (°C)' },
+        humidity: { type: 'number', unit: '%', minimum: 0, maximum: 100, description: 'Relative humidity (%)' },
+        pressure: { type: 'number', unit: 'hPa', minimum: 0, description: 'Sea level pressure (hPa)' },
+        visibility: { type: 'number', unit: 'm', minimum: 0, description: 'Visibility (m)' },
+        wind_speed: { type: 'number', unit: 'm/s', minimum: 0, description: 'Wind speed (m/s)' },
+        wind_direction: { type: 'number', unit: 'deg', minimum: 0, maximum: 360, description: 'Wind direction (degrees)' },
+        clouds: { type: 'number', unit: '%', minimum: 0, maximum: 100, description: 'Cloudiness (%)' },
+        precipitation_probability: { type: 'number', unit: '1', minimum: 0, maximum: 1, description: 'Probability of precipitation (0-1)' },
+        rain: { type: 'number', unit: 'mm', minimum: 0, description: 'Rain volume over the period (mm)' },
+        snow: { type: 'number', unit: 'mm', minimum: 0, description: 'Snow volume over the period (mm)' },
+        weather: { type: 'string', description: 'Weather group, e.g. Rain' },
+        weather_description: { type: 'string', description: 'Weather condition within the group' }
+    },
+    required: [
+        'forecast_id', 'issued_at', 'valid_at', 'step', 'steps', 'temperature', 'feels_like', 'humidity',
+        'pressure', 'wind_speed', 'clouds', 'precipitation_probability', 'weather', 'weather_description'
+    ],
+    additionalProperties: false
+} as const satisfies ObjectSchema;
+
+export type WeatherForecastPayload = PayloadOf<typeof WEATHER_FORECAST_SCHEMA>;
+
+export const WEATHER_FORECAST_FEED: FeedSpec<typeof WEATHER_FORECAST_SCHEMA> = {
+    name: 'weather_forecast',
+    description: '5-day forecast in 3-hour steps; newer runs replace older ones',
+    version: 2,
+    // Version 2 only added unit annotations
+    migratesFrom: [1],
+    schema: WEATHER_FORECAST_SCHEMA
+};
+
+// One message when an alert is raised and one when it clears; both carry the same alert_id
+const WEATHER_ALERT_SCHEMA = {
+    type: 'object',
+    properties: {
+        alert_id: { type: 'string', description: 'Identifies the alert across its raised and cleared messages' },
+        state: { type: 'string', enum: ['raised', 'cleared'], description: 'What happened to the alert' },
+        rule_id: { type: 'string', description: 'Rule that raised the alert' },
+        rule_name: { type: 'string', description: 'Name of that rule' },
+        severity: { type: 'string', enum: ['info', 'warning', 'critical'], description: 'Severity set on the rule' },
+        metric: { type: 'string', description: 'Reading field the rule watches, e.g. wind_speed or condition_code' },
+        operator: { type: 'string', enum: ['above', 'below', 'in'], description: 'How the rule compares the metric' },
+        threshold: { type: 'number', description: "Threshold for 'above' and 'below' rules" },
+        value: { type: 'number', description: 'Reading that raised or cleared the alert' },
+        message: { type: 'string', description: 'Human readable summary' },
+        raised_at: { type: 'string', format: 'date-time', description: 'When the alert was raised' },
+        cleared_at: { type: 'string', format: 'date-time', description: 'When the alert cleared' },
+        alert_entity_id: { type: 'string', description: 'Legion alert entity for this alert, if one was created' }
+    },
+    required: ['alert_id', 'state', 'rule_id', 'rule_name', 'severity', 'metric', 'operator', 'value', 'message', 'raised_at'],
+    additionalProperties: false
+} as const satisfies ObjectSchema;
+
+export type WeatherAlertPayload = PayloadOf<typeof WEATHER_ALERT_SCHEMA>;
+
+export const WEATHER_ALERT_FEED: FeedSpec<typeof WEATHER_ALERT_SCHEMA> = {
+    name: 'weather_alert',
+    description: 'Severe weather alerts raised and cleared by alert rules',
+    version: 1,
+    migratesFrom: [],
+    schema: WEATHER_ALERT_SCHEMA
+};
+
+// Concentrations are in μg/m³, as OpenWeather reports them
+const AIR_QUALITY_SCHEMA = {
+    type: 'object',
+    properties: {
+        aqi: { type: 'integer', minimum: 1, maximum: 5, description: 'OpenWeather air quality index (1 good - 5 very poor)' },
+        pm2_5: { type: 'number', minimum: 0, description: 'Fine particulate matter PM2.5 (μg/m³)' },
+        pm10: { type: 'number', minimum: 0, description: 'Coarse particulate matter PM10 (μg/m³)' },
+        o3: { type: 'number', minimum: 0, description: 'Ozone (μg/m³)' },
+        no2: { type: 'number', minimum: 0, description: 'Nitrogen dioxide (μg/m³)' },
+        co: { type: 'number', minimum: 0, description: 'Carbon monoxide (μg/m³)' },
+        so2: { type: 'number', minimum: 0, description: 'Sulphur dioxide (μg/m³)' },
+        timestamp: { type: 'string', format: 'date-time', description: 'When the measurement was taken' }
+    },
+    required: ['aqi', 'pm2_5', 'pm10', 'o3', 'no2', 'co', 'so2', 'timestamp'],
+    additionalProperties: false
+} as const satisfies ObjectSchema;
+
+export type AirQualityPayload = PayloadOf<typeof AIR_QUALITY_SCHEMA>;
+
+export const AIR_QUALITY_FEED: FeedSpec<typeof AIR_QUALITY_SCHEMA> = {
+    name: 'air_quality',
+    description: 'Air pollution at the station: air quality index and pollutant concentrations',
+    version: 1,
+    migratesFrom: [],
+    schema: AIR_QUALITY_SCHEMA
+};
+
+/**
+ * Every feed we publish, by feed name
+ */
+export const FEED_SPECS: Record<string, FeedSpec> = {
+    [WEATHER_CONDITIONS_FEED.name]: WEATHER_CONDITIONS_FEED,
+    [WEATHER_FORECAST_FEED.name]: WEATHER_FORECAST_FEED,
+    [WEATHER_ALERT_FEED.name]: WEATHER_ALERT_FEED,
+    [AIR_QUALITY_FEED.name]: AIR_QUALITY_FEED
+};
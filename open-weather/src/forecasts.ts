@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import { fieldUnits, WEATHER_FORECAST_FEED, WeatherForecastPayload } from './feed-schemas';
+import { FeedMessage } from './legion-client';
+import { WeatherObservation } from './providers';
+import { convertFields, SI_UNITS, unitsIn } from './units';
+
+/**
+ * A provider's 5-day / 3-hour forecast as runs of the `weather_forecast` feed. A run is every
+ * step of one fetch under a shared forecast ID and issue time, so consumers can tell runs apart
+ * and let the newest one win.
+ */
+export interface ForecastRun {
+    forecastId: string;
+    issuedAt: string;
+    steps: WeatherForecastPayload[];
+}
+
+/**
+ * Turn a provider's forecast steps into a forecast run
+ */
+export function toForecastRun(forecast: WeatherObservation[], issuedAt: Date = new Date()): ForecastRun {
+    const forecastId = crypto.randomUUID();
+    // Observations are in SI, the feed in the units its schema gives
+    const feedUnits = fieldUnits(WEATHER_FORECAST_FEED.schema);
+    const siUnits = unitsIn(feedUnits, SI_UNITS);
+
+    const steps = forecast.map((step, index): WeatherForecastPayload => convertFields({
+        forecast_id: forecastId,
+        issued_at: issuedAt.toISOString(),
+        valid_at: step.observedAt,
+        step: index,
+        steps: forecast.length,
+        temperature: step.temperature,
+        feels_like: step.feelsLike,
+        humidity: step.humidity,
+        pressure: step.pressure,
+        visibility: step.visibility ?? undefined,
+        wind_speed: step.windSpeed,
+        wind_direction: step.windDirection ?? undefined,
+        clouds: step.clouds,
+        precipitation_probability: step.precipitationProbability ?? 0,
+        rain: step.rain ?? undefined,
+        snow: step.snow ?? undefined,
+        weather: step.condition,
+        weather_description: step.description
+    }, siUnits, feedUnits));
+
+    return { forecastId, issuedAt: issuedAt.toISOString(), steps };
+}
+
+/**
+ * The most recently issued run among forecast feed messages, steps in order
+ */
+export function latestForecastRun(messages: FeedMessage<WeatherForecastPayload>[]): ForecastRun | null {
+    const runs = new Map<string, ForecastRun>();
+
+    for (const { payload } of messages) {
+        let run = runs.get(payload.forecast_id);
+        if (!run) {
+            run = { forecastId: payload.forecast_id, issuedAt: payload.issued_at, steps: [] };
+            runs.set(payload.forecast_id, run);
+        }
+        run.steps.push(payload);
+    }
+
+    const latest = Array.from(runs.values())
+        .sort((a, b) => Date.parse(b.issuedAt) - Date.parse(a.issuedAt))[0];
+    if (!latest) {
+        return null;
+    }
+
+    latest.steps.sort((a, b) => a.step - b.step);
+    return latest;
+}
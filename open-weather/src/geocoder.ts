@@ -0,0 +1,112 @@
+import { Upstream } from './resilience';
+
+/**
+ * Place lookups through the OpenWeather Geocoding API: city queries, postal codes and reverse
+ * lookups of coordinates. City queries can match several places ("Springfield", "Paris"), so
+ * they return every distinct candidate and leave the choice to the caller.
+ */
+export interface GeocodeCandidate {
+    name: string;
+    // State or region, when OpenWeather knows it
+    state: string | null;
+    country: string;
+    lat: number;
+    lon: number;
+}
+
+export type GeocodeResult =
+    | { status: 'found'; place: GeocodeCandidate }
+    | { status: 'ambiguous'; candidates: GeocodeCandidate[] }
+    | { status: 'not_found' };
+
+const GEOCODING_URL = 'https://api.openweathermap.org/geo/1.0';
+
+// Most candidates asked for per city query (OpenWeather's own maximum)
+const CANDIDATE_LIMIT = 5;
+
+function toCandidate(place: any): GeocodeCandidate {
+    return {
+        name: place.name,
+        state: place.state || null,
+        country: place.country,
+        lat: place.lat,
+        lon: place.lon
+    };
+}
+
+/**
+ * The result of a city query from its candidates. The same place is sometimes listed more than
+ * once with slightly different coordinates; only the first listing counts.
+ */
+export function toGeocodeResult(candidates: GeocodeCandidate[]): GeocodeResult {
+    const byPlace = new Map<string, GeocodeCandidate>();
+    for (const candidate of candidates) {
+        const key = `${candidate.name}|${candidate.state || ''}|${candidate.country}`;
+        if (!byPlace.has(key)) {
+            byPlace.set(key, candidate);
+        }
+    }
+
+    const distinct = Array.from(byPlace.values());
+    if (distinct.length === 0) {
+        return { status: 'not_found' };
+    }
+    return distinct.length === 1
+        ? { status: 'found', place: distinct[0] }
+        : { status: 'ambiguous', candidates: distinct };
+}
+
+/**
+ * Label for a place, e.g. "Springfield, Illinois, US"
+ */
+export function describePlace(place: Pick<GeocodeCandidate, 'name' | 'state' | 'country'>): string {
+    return [place.name, place.state, place.country].filter(Boolean).join(', ');
+}
+
+export class Geocoder {
+    constructor(private readonly upstream: Upstream, private readonly apiKey: string) {}
+
+    /**
+     * Resolve a city query such as "Paris", "Paris,FR" or "Springfield,IL,US"
+     */
+    async searchCity(query: string): Promise<GeocodeResult> {
+        const response = await this.upstream.request<any[]>({
+            url: `${GEOCODING_URL}/direct`,
+            params: { q: query, limit: CANDIDATE_LIMIT, appid: this.apiKey }
+        });
+
+        return toGeocodeResult((response.data || []).map(toCandidate));
+    }
+
+    /**
+     * Resolve a postal code, optionally within a country (ISO 3166 code; OpenWeather assumes US otherwise)
+     */
+    async lookupZip(zip: string, country?: string): Promise<GeocodeCandidate | null> {
+        try {
+            const response = await this.upstream.request<any>({
+                url: `${GEOCODING_URL}/zip`,
+                params: { zip: country ? `${zip},${country}` : zip, appid: this.apiKey }
+            });
+            return toCandidate(response.data);
+        } catch (error: any) {
+            // Unknown postal codes come back as 404
+            if (error.response?.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * The place at a set of coordinates, or null over open water and other unnamed places
+     */
+    async reverse(lat: number, lon: number): Promise<GeocodeCandidate | null> {
+        const response = await this.upstream.request<any[]>({
+            url: `${GEOCODING_URL}/reverse`,
+            params: { lat, lon, limit: 1, appid: this.apiKey }
+        });
+
+        const place = (response.data || [])[0];
+        return place ? { ...toCandidate(place), lat, lon } : null;
+    }
+}
@@ -1,57 +1,154 @@
 import express from 'express';
-import * as dotenv from 'dotenv';
 import * as path from 'path';
-import axios from 'axios';
 import crypto from 'crypto';
-
-// Load environment variables from .env file
-dotenv.config();
+import { config, resilienceOptions } from './config';
+import { AIR_QUALITY_CAPABILITY, hasAirQuality, toAirQualityPayload, withCapability } from './air-quality';
+import {
+    AlertEngine,
+    AlertEvent,
+    AlertRuleValidationError,
+    CONDITION_CODE_METRIC,
+    describeAlert,
+    ruleToJson
+} from './alert-engine';
+import { FeedBatcher } from './feed-batcher';
+import { FeedMessageNotSentError, FeedQueue, PublishResult } from './feed-queue';
+import { ForecastRun, latestForecastRun, toForecastRun } from './forecasts';
+import { describePlace, GeocodeCandidate } from './geocoder';
+import {
+    AIR_QUALITY_FEED,
+    AirQualityPayload,
+    assertValidPayload,
+    FEED_SPECS,
+    FeedPayloadValidationError,
+    FeedSpec,
+    fieldUnits,
+    WEATHER_ALERT_FEED,
+    WEATHER_CONDITIONS_FEED,
+    WEATHER_FORECAST_FEED,
+    WeatherAlertPayload,
+    WeatherConditionsPayload,
+    WeatherForecastPayload
+} from './feed-schemas';
+import { requestToken, revokeToken } from './oauth';
+import { legionOAuthUpstream, realmUpstream } from './oidc';
+import { generatePkcePair } from './pkce';
+import { CircuitOpenError, Upstream } from './resilience';
+import { JwtVerificationError, verifyAccessToken } from './jwt';
+import {
+    createProviders,
+    defaultProviderName,
+    isProviderName,
+    LocationNotFoundError,
+    PROVIDER_NAMES,
+    ProviderName,
+    ProviderNotConfiguredError,
+    WeatherLocation,
+    WeatherObservation,
+    WeatherProvider
+} from './providers';
+import { missingScopes, SCOPES } from './scopes';
+import {
+    CreateFeedMessageRequest,
+    Entity,
+    FeedDefinition,
+    LegionApiError,
+    LegionClient,
+    UpdateEntityRequest
+} from './legion-client';
+import {
+    bucketsToCsv,
+    convertReadings,
+    downsample,
+    numericFields,
+    parseBucketSize,
+    Reading,
+    ReadingBucket,
+    readingsToCsv,
+    toReadings
+} from './station-history';
+import { StationReconciler } from './station-reconciler';
+import { StationScheduler } from './station-scheduler';
+import { createStore } from './store';
+import { SessionExpiredError, TokenManager } from './token-manager';
+import { convertFields, isUnitSystem, SI_UNITS, SYSTEM_UNITS, UNIT_SYSTEMS, unitsIn } from './units';
+import { CacheOptions, CachedUpstream, QuotaExceededError } from './upstream-cache';
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+    // Keep the raw body so webhook signatures can be checked
+    verify: (req, _res, buf) => {
+        (req as any).rawBody = buf;
+    }
+}));
 app.use(express.urlencoded({ extended: true }));
 
-// Configuration
-const config = {
-    PORT: process.env.PORT || 3001,
-    LEGION_API_URL: process.env.LEGION_API_URL || 'http://localhost:9876',
-    CLIENT_ID: process.env.CLIENT_ID || '', // Will be set after integration creation
-    CLIENT_SECRET: process.env.CLIENT_SECRET || '', // Optional for public clients
-    REDIRECT_URI: process.env.REDIRECT_URI || 'http://localhost:3001/oauth/callback',
-    OPENWEATHER_API_KEY: process.env.OPENWEATHER_API_KEY || ''
-};
-
 // Serve static files from public directory
 app.use(express.static(path.join(__dirname, '..', 'public')));
 
 /**
- * We need somewhere to save all of the organizations we have access to, along with their tokens
- * So we will mimic a datastore. In production, please use a secure data solution
+ * Organizations, their tokens and our caches live in a pluggable store (see src/store).
+ * The file store keeps them across restarts with tokens encrypted at rest.
  */
-interface OrgData {
-    tokens: any;
-    activatedAt: Date;
-}
+const store = createStore();
+const {
+    organizations: activeOrganizations,
+    oauthStates,
+    weatherStations,
+    feedDefinitions: feedDefinitionCache,
+    stationSchedules,
+    forecasts: stationForecasts,
+    alertRules,
+    alertStates,
+    orgSettings
+} = store;
+
+const tokenManager = new TokenManager(
+    activeOrganizations,
+    refreshToken => requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken }),
+    config.TOKEN_REFRESH_MARGIN_SECONDS
+);
+
+/**
+ * Outbound calls go through an Upstream per service: timeouts, retries with backoff and a circuit breaker
+ */
+const legionUpstream = new Upstream('legion', resilienceOptions);
+
+/**
+ * Weather provider calls are also cached and counted against each provider's plan limits
+ */
+const weatherCacheOptions: CacheOptions = {
+    ttlMs: config.WEATHER_CACHE_TTL_MS,
+    maxEntries: config.WEATHER_CACHE_MAX_ENTRIES
+};
+const openWeatherUpstream = new CachedUpstream('openweather', resilienceOptions, weatherCacheOptions, {
+    perMinute: config.OPENWEATHER_CALLS_PER_MINUTE,
+    perDay: config.OPENWEATHER_CALLS_PER_DAY,
+    reserveRatio: config.QUOTA_POLL_RESERVE_RATIO
+});
+const openMeteoUpstream = new CachedUpstream('open-meteo', resilienceOptions, weatherCacheOptions, {
+    perMinute: config.OPEN_METEO_CALLS_PER_MINUTE,
+    perDay: config.OPEN_METEO_CALLS_PER_DAY,
+    reserveRatio: config.QUOTA_POLL_RESERVE_RATIO
+});
+const weatherUpstreams: Partial<Record<ProviderName, CachedUpstream>> = {
+    'openweather': openWeatherUpstream,
+    'open-meteo': openMeteoUpstream
+};
 
-const activeOrganizations = new Map<string, OrgData>(); // orgId -> { tokens, activatedAt }
-const oauthStates = new Map<string, { orgId: string; timestamp: number }>(); // state -> { orgId, timestamp }
-const weatherStations = new Map<string, any[]>(); // orgId -> array of weather station entities
-const feedDefinitionCache = new Map<string, any>(); // feedName -> feed definition
+const providers = createProviders(openWeatherUpstream, openMeteoUpstream);
+const defaultProvider = defaultProviderName();
 
 // Clean up old OAuth states periodically
-setInterval(() => {
+setInterval(async () => {
     const oneHourAgo = Date.now() - 3600000;
-    for (const [state, data] of oauthStates.entries()) {
+    for (const [state, data] of await oauthStates.entries()) {
         if (data.timestamp < oneHourAgo) {
-            oauthStates.delete(state);
+            await oauthStates.delete(state);
         }
     }
 }, 3600000); // Check every hour
 
-// Weather feed definition constants
-const WEATHER_FEED_NAME = 'weather_conditions';
-const WEATHER_FEED_DESCRIPTION = 'Current weather conditions including temperature, humidity, pressure';
-
 // Convert lat/lon to ECEF coordinates (Earth-Centered, Earth-Fixed)
 function latLonToECEF(lat: number, lon: number, alt: number = 0) {
     // WGS84 ellipsoid constants
@@ -71,150 +168,335 @@ function latLonToECEF(lat: number, lon: number, alt: number = 0) {
     return { x, y, z };
 }
 
-// Get city coordinates from OpenWeather API
-async function getCityCoordinates(city: string, apiKey: string): Promise<{ lat: number; lon: number; name: string; country: string } | null> {
-    try {
-        const response = await axios.get('https://api.openweathermap.org/data/2.5/weather', {
-            params: {
-                q: city,
-                appid: apiKey,
-                units: 'metric'
-            }
-        });
-        
-        return {
-            lat: response.data.coord.lat,
-            lon: response.data.coord.lon,
-            name: response.data.name,
-            country: response.data.sys.country
-        };
-    } catch (error) {
-        console.error('Failed to get city coordinates:', error);
-        return null;
+// Great-circle distance between two points in kilometers (haversine)
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const toRad = (deg: number) => deg * Math.PI / 180;
+    const dLat = toRad(lat2 - lat1);
+    const dLon = toRad(lon2 - lon1);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+    return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+// Coordinates given together with a city must be at most this far from where the geocoder puts it
+const MAX_CITY_DISTANCE_KM = 50;
+
+function isValidCoordinates(lat: unknown, lon: unknown): lat is number {
+    return typeof lat === 'number' && typeof lon === 'number' && lat >= -90 && lat <= 90 && lon >= -180 && lon <= 180;
+}
+
+/**
+ * Candidates for the user to pick from when a city query matches several places
+ */
+function sendCandidates(res: express.Response, query: string, candidates: GeocodeCandidate[]) {
+    res.status(300).json({
+        error: `"${query}" matches several places; send the lat and lon of the one you mean`,
+        candidates: candidates.map(candidate => ({ ...candidate, label: describePlace(candidate) }))
+    });
+}
+
+/**
+ * The weather provider for an organization, or for one of its stations: the station's own
+ * choice, else the organization's, else WEATHER_PROVIDER
+ */
+async function providerFor(orgId: string, station?: Entity): Promise<WeatherProvider> {
+    const stationChoice = station?.metadata.weather_provider;
+    if (isProviderName(stationChoice)) {
+        return providers[stationChoice];
     }
+    const settings = await orgSettings.get(orgId);
+    return providers[settings?.weatherProvider || defaultProvider];
+}
+
+/**
+ * Where a station's weather comes from: its coordinates, or its city for stations created without them
+ */
+function stationLocation(station: Entity): WeatherLocation {
+    const { lat, lon, city } = station.metadata;
+    return isValidCoordinates(lat, lon) ? { lat, lon } : { city };
+}
+
+/**
+ * Generated station name, e.g. "Weather Station - Paris, FR". Places named after their coordinates have no country.
+ */
+function stationName(city: string, country: string): string {
+    return `Weather Station - ${[city, country].filter(Boolean).join(', ')}`;
+}
+
+/**
+ * Legion API client for an organization. Tokens are refreshed when they are about to expire,
+ * and once more if Legion rejects one anyway.
+ */
+function legionClient(orgId: string): LegionClient {
+    return new LegionClient({
+        baseUrl: config.LEGION_API_URL,
+        orgId,
+        accessToken: () => tokenManager.ensureValidToken(orgId),
+        refreshAccessToken: staleAccessToken => tokenManager.refresh(orgId, staleAccessToken),
+        upstream: legionUpstream
+    });
+}
+
+/**
+ * A weather provider's quota is used up. The call wasn't sent, so the rest of the plan's quota
+ * isn't burned on calls that would be rejected anyway.
+ */
+function sendQuotaExceeded(res: express.Response, error: QuotaExceededError) {
+    res.set('Retry-After', String(Math.max(1, Math.ceil((error.retryAt.getTime() - Date.now()) / 1000))));
+    res.status(429).json({
+        error: 'The weather provider\'s call quota is used up. Please try again later.',
+        retry_at: error.retryAt.toISOString()
+    });
 }
 
-// Make authenticated Legion API request
-async function legionApiRequest(orgId: string, path: string, method: string = 'GET', body?: any) {
-    const orgData = activeOrganizations.get(orgId);
+/**
+ * Respond with a failed Legion call, telling the UI when the org has to re-consent
+ */
+function sendLegionError(res: express.Response, error: any) {
+    if (error instanceof SessionExpiredError) {
+        res.status(401).json({
+            error: 'Organization session expired. Please reconnect the integration.',
+            code: error.message,
+            needs_reconsent: true
+        });
+        return;
+    }
     
-    if (!orgData || !orgData.tokens) {
-        throw new Error('Organization not authorized');
+    // Legion refused the call even though our scope check passed (e.g. entity-level permissions)
+    if (error instanceof LegionApiError && error.status === 403) {
+        res.status(403).json({
+            error: 'Legion denied the request',
+            details: error.body
+        });
+        return;
     }
     
-    const headers: any = {
-        'Authorization': `Bearer ${orgData.tokens.access_token}`,
-        'X-ORG-ID': orgId
-    };
+    // A deployment problem rather than a bad request, e.g. the org chose OpenWeather but no key is set
+    if (error instanceof ProviderNotConfiguredError) {
+        res.status(503).json({
+            error: `The weather provider ${error.provider} is not configured on this server. Please contact the administrator or choose another provider.`,
+            provider: error.provider
+        });
+        return;
+    }
     
-    if (body) {
-        headers['Content-Type'] = 'application/json';
+    if (error instanceof QuotaExceededError) {
+        sendQuotaExceeded(res, error);
+        return;
     }
     
-    // Build full URL - config.LEGION_API_URL already includes /v3
-    const url = `${config.LEGION_API_URL}${path}`;
+    // Stations created by city whose city the provider doesn't know
+    if (error instanceof LocationNotFoundError) {
+        res.status(404).json({ error: 'City not found' });
+        return;
+    }
     
-    console.log('Legion API Request:', method, url);
+    // Tokens can't be refreshed while the identity provider is failing
+    if (error instanceof CircuitOpenError && [legionOAuthUpstream.name, realmUpstream.name].includes(error.upstream)) {
+        res.status(503).json({ error: 'Legion sign-in is temporarily unavailable. Please try again shortly.' });
+        return;
+    }
     
-    const response = await axios({
-        method,
-        url,
-        headers,
-        data: body
-    });
+    // The weather provider (e.g. its geocoder) failing after retries, or its circuit is open
+    if ((error instanceof CircuitOpenError && error.upstream !== legionUpstream.name) ||
+        (!(error instanceof LegionApiError) && error.isAxiosError &&
+            (!error.response || error.response.status === 429 || error.response.status >= 500))) {
+        res.status(503).json({ error: 'The weather provider is temporarily unavailable. Please try again shortly.' });
+        return;
+    }
+    
+    // Still failing after retries, or the circuit is open
+    if (error instanceof LegionApiError && (error.status === null || error.status === 429 || error.status >= 502)) {
+        res.status(503).json({
+            error: 'Legion is temporarily unavailable. Please try again shortly.',
+            code: error.code || error.status
+        });
+        return;
+    }
     
-    return response.data;
+    res.status(500).json({ error: error.message });
 }
 
 /**
- * Get authorization URL from Legion
+ * Route guard: the organization must be connected and have granted every listed scope.
+ * The org comes from the :orgId route parameter.
  */
-async function getAuthorizationURL(): Promise<string> {
-    try {
-        const response = await axios.get(
-            `${config.LEGION_API_URL}/integrations/oauth/authorization-url`
-        );
-        return response.data.authorization_url;
-    } catch (error) {
-        console.error('Failed to get authorization URL:', error);
-        throw error;
-    }
+function requireScopes(...requiredScopes: string[]) {
+    return async (req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> => {
+        const orgData = await activeOrganizations.get(req.params.orgId);
+        
+        if (!orgData || !orgData.tokens) {
+            res.status(401).json({ error: 'Organization not authorized' });
+            return;
+        }
+        
+        const missing = missingScopes(orgData.scopes, requiredScopes);
+        if (missing.length > 0) {
+            res.status(403).json({
+                error: `Missing required scopes: ${missing.join(', ')}. Please reconnect the integration and grant them.`,
+                required_scopes: requiredScopes,
+                missing_scopes: missing
+            });
+            return;
+        }
+        
+        next();
+    };
 }
 
 /**
- * Decode JWT token to extract organization ID
+ * Verify a JWT access token and extract the organization ID from its claims
  */
-function extractOrgIdFromToken(accessToken: string): string | null {
-    try {
-        const tokenParts = accessToken.split('.');
-        if (tokenParts.length !== 3) {
-            console.error('Invalid JWT format');
-            return null;
-        }
-        
-        const payload = JSON.parse(Buffer.from(tokenParts[1], 'base64').toString());
-        console.log('JWT Token payload:', JSON.stringify(payload, null, 2));
-        
-        // Try different possible fields for organization ID
-        const organizationId = payload.org_id || 
-                            payload.organization_id || 
-                            payload['legion:org_id'] ||
-                            payload.orgs?.[0]?.organization_id ||
-                            payload.organizations?.[0]?.id;
-        
-        // If not found, try to extract from scopes
-        // Scopes are in format: {org_id}:::{scope_name}
-        if (!organizationId && payload.scope) {
-            console.log('Attempting to extract org ID from scopes...');
-            const scopes = payload.scope.split(' ');
-            if (scopes.length > 0) {
-                const firstScope = scopes[0];
-                const scopeParts = firstScope.split(':::');
-                if (scopeParts.length >= 2) {
-                    console.log('Extracted organization ID from scope:', scopeParts[0]);
-                    return scopeParts[0];
-                }
+async function extractOrgIdFromToken(accessToken: string): Promise<string | null> {
+    // Only trust claims from a token signed by the realm and issued to this client
+    const payload = await verifyAccessToken(accessToken);
+    console.log('Verified JWT for subject:', payload.sub, 'client:', payload.azp);
+    
+    // Try different possible fields for organization ID
+    const organizationId = payload.org_id || 
+                        payload.organization_id || 
+                        payload['legion:org_id'] ||
+                        payload.orgs?.[0]?.organization_id ||
+                        payload.organizations?.[0]?.id;
+    
+    // If not found, try to extract from scopes
+    // Scopes are in format: {org_id}:::{scope_name}
+    if (!organizationId && payload.scope) {
+        console.log('Attempting to extract org ID from scopes...');
+        const scopes = payload.scope.split(' ');
+        if (scopes.length > 0) {
+            const firstScope = scopes[0];
+            const scopeParts = firstScope.split(':::');
+            if (scopeParts.length >= 2) {
+                console.log('Extracted organization ID from scope:', scopeParts[0]);
+                return scopeParts[0];
             }
         }
-        
-        return organizationId || null;
-    } catch (err) {
-        console.error('Failed to decode JWT:', err);
-        return null;
     }
+    
+    return organizationId || null;
+}
+
+// Organization names rarely change, so keep them for a while instead of asking Legion on every page load
+const ORGANIZATION_NAME_TTL_MS = 10 * 60 * 1000;
+const organizationNames = new Map<string, { name: string | null; fetchedAt: number }>(); // orgId -> resolved name
+
+/**
+ * Look up an organization's name in Legion using that organization's own token
+ */
+async function resolveOrganizationName(orgId: string): Promise<string | null> {
+    const cached = organizationNames.get(orgId);
+    if (cached && Date.now() - cached.fetchedAt < ORGANIZATION_NAME_TTL_MS) {
+        return cached.name;
+    }
+    
+    const orgs = await legionClient(orgId).listMyOrganizations();
+    const name = orgs.find(org => org.organization_id === orgId)?.organization_name || null;
+    
+    organizationNames.set(orgId, { name, fetchedAt: Date.now() });
+    return name;
 }
 
 /**
- * API endpoint to get available organizations (mock data for demo)
+ * API endpoint to get the organizations the integration is installed in,
+ * with their names from Legion, token health and station count
  */
-app.get('/api/organizations', (_req: express.Request, res: express.Response) => {
-    // In a real implementation, this would fetch from Legion API
-    // For demo purposes, return mock data
-    const mockOrgs = [
-        { organization_id: 'org-1', organization_name: 'Demo Organization 1' },
-        { organization_id: 'org-2', organization_name: 'Demo Organization 2' }
-    ];
+app.get('/api/organizations', async (_req: express.Request, res: express.Response) => {
+    const connected = await activeOrganizations.entries();
+    
+    const organizations = await Promise.all(connected.map(async ([orgId, orgData]) => {
+        const tokenStatus = tokenManager.tokenStatus(orgData);
+        const errors: string[] = [];
+        let organizationName: string | null = null;
+        let stationCount: number | null = null;
+        
+        // Orgs that need re-consent can't call Legion; report what we know locally
+        if (!tokenStatus.needsReconsent) {
+            if (orgData.scopes.includes(SCOPES.ORGANIZATIONS_READ)) {
+                try {
+                    organizationName = await resolveOrganizationName(orgId);
+                } catch (error: any) {
+                    errors.push(`Failed to resolve name: ${error.message}`);
+                }
+            }
+            
+            if (orgData.scopes.includes(SCOPES.ENTITIES_READ)) {
+                try {
+                    stationCount = (await loadWeatherStations(orgId)).length;
+                } catch (error: any) {
+                    errors.push(`Failed to count stations: ${error.message}`);
+                }
+            }
+        }
+        
+        return {
+            organization_id: orgId,
+            organization_name: organizationName,
+            installed: true,
+            status: orgData.status,
+            activated_at: orgData.activatedAt,
+            token: {
+                expires_at: tokenStatus.expiresAt,
+                expired: tokenStatus.expired,
+                last_refreshed_at: tokenStatus.lastRefreshedAt,
+                needs_reconsent: tokenStatus.needsReconsent
+            },
+            station_count: stationCount,
+            errors
+        };
+    }));
     
-    res.json({ organizations: mockOrgs });
+    res.json({ organizations });
 });
 
 /**
  * Check if integration is installed for an organization
  */
-app.get('/api/integration-status/:orgId', (req: express.Request, res: express.Response) => {
+app.get('/api/integration-status/:orgId', async (req: express.Request, res: express.Response) => {
     const { orgId } = req.params;
-    const orgData = activeOrganizations.get(orgId);
+    const orgData = await activeOrganizations.get(orgId);
+    const tokenStatus = orgData ? tokenManager.tokenStatus(orgData) : null;
     
     res.json({
         installed: !!orgData && !!orgData.tokens,
-        hasTokens: !!orgData?.tokens
+        hasTokens: !!orgData?.tokens,
+        status: orgData?.status || null,
+        scopes: orgData?.scopes || [],
+        tokenExpiresAt: tokenStatus?.expiresAt || null,
+        refreshTokenExpiresAt: tokenStatus?.refreshTokenExpiresAt || null,
+        lastRefreshedAt: tokenStatus?.lastRefreshedAt || null,
+        needsReconsent: !!tokenStatus?.needsReconsent
     });
 });
 
+/**
+ * Create state and PKCE values for a new authorization request and build the authorize URL
+ */
+async function createAuthorizationRequest(orgId: string): Promise<string> {
+    // Generate state for CSRF protection
+    const state = crypto.randomBytes(16).toString('hex');
+    
+    // Generate a PKCE verifier per state; only its S256 challenge leaves this server
+    const pkce = generatePkcePair();
+    await oauthStates.set(state, { orgId, timestamp: Date.now(), codeVerifier: pkce.codeVerifier });
+    
+    // Build authorization URL - don't use new URL() as it strips the path from base URL
+    const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.CLIENT_ID,
+        organization_id: orgId,
+        redirect_uri: config.REDIRECT_URI,
+        state: state,
+        code_challenge: pkce.codeChallenge,
+        code_challenge_method: pkce.codeChallengeMethod
+    });
+    
+    return `${config.LEGION_API_URL}/integrations/oauth/authorize?${params.toString()}`;
+}
+
 /**
  * Initiate OAuth connection - matches the working example
  */
-app.get('/connect', (req: express.Request, res: express.Response): void => {
+app.get('/connect', async (req: express.Request, res: express.Response): Promise<void> => {
     const { org_id } = req.query;
     
     if (!org_id) {
@@ -227,20 +509,7 @@ app.get('/connect', (req: express.Request, res: express.Response): void => {
         return;
     }
     
-    // Generate state for CSRF protection
-    const state = crypto.randomBytes(16).toString('hex');
-    oauthStates.set(state, { orgId: org_id as string, timestamp: Date.now() });
-    
-    // Build authorization URL - don't use new URL() as it strips the path from base URL
-    const params = new URLSearchParams({
-        response_type: 'code',
-        client_id: config.CLIENT_ID,
-        organization_id: org_id as string,
-        redirect_uri: config.REDIRECT_URI,
-        state: state
-    });
-    
-    const authUrl = `${config.LEGION_API_URL}/integrations/oauth/authorize?${params.toString()}`;
+    const authUrl = await createAuthorizationRequest(org_id as string);
     
     // Redirect to Legion OAuth
     res.redirect(authUrl);
@@ -257,20 +526,7 @@ app.get('/api/oauth/initiate/:orgId', async (req: express.Request, res: express.
             throw new Error('Integration not configured. Please set CLIENT_ID.');
         }
         
-        // Generate state for CSRF protection
-        const state = crypto.randomBytes(16).toString('hex');
-        oauthStates.set(state, { orgId, timestamp: Date.now() });
-        
-        // Build authorization URL - don't use new URL() as it strips the path from base URL
-        const params = new URLSearchParams({
-            response_type: 'code',
-            client_id: config.CLIENT_ID,
-            organization_id: orgId,
-            redirect_uri: config.REDIRECT_URI,
-            state: state
-        });
-        
-        const authUrl = `${config.LEGION_API_URL}/integrations/oauth/authorize?${params.toString()}`;
+        const authUrl = await createAuthorizationRequest(orgId);
         
         res.json({ authUrl });
     } catch (error) {
@@ -291,97 +547,60 @@ app.get('/oauth/callback', async (req: express.Request, res: express.Response):
     }
     
     // Check if this is from our own connect flow or external (like map UI)
-    const stateData = oauthStates.get(state as string);
+    const stateData = await oauthStates.get(state as string);
     let organizationId: string | null = null;
     
     if (stateData) {
         // State from our own /connect flow
         organizationId = stateData.orgId;
-        oauthStates.delete(state as string);
+        await oauthStates.delete(state as string);
     } else {
         // State from external application (e.g., map UI)
         console.log('OAuth callback from external application');
+        
+        // External flows never saw our verifier, so they can't be completed when PKCE is required
+        if (config.REQUIRE_PKCE) {
+            res.status(400).send('PKCE is required: please start the connection from this integration');
+            return;
+        }
     }
     
     try {
-        // Exchange code for tokens
-        const tokenRequest: any = {
+        const tokenRequest: Record<string, string> = {
             grant_type: 'authorization_code',
             code: code as string,
-            client_id: config.CLIENT_ID,
             redirect_uri: config.REDIRECT_URI
         };
         
-        // Only add client_secret if it's configured
-        if (config.CLIENT_SECRET) {
-            tokenRequest.client_secret = config.CLIENT_SECRET;
+        if (stateData) {
+            tokenRequest.code_verifier = stateData.codeVerifier;
         }
         
         console.log('Token exchange request:', {
             ...tokenRequest,
-            client_secret: tokenRequest.client_secret ? '***' : 'not provided',
-            code: (code as string).substring(0, 8) + '...'
+            client_id: config.CLIENT_ID,
+            client_secret: config.CLIENT_SECRET ? '***' : 'not provided',
+            code: (code as string).substring(0, 8) + '...',
+            code_verifier: tokenRequest.code_verifier ? '***' : 'not provided'
         });
         
-        // Try the token exchange - first with Legion API, then fallback to Keycloak directly
-        let tokenResponse;
-        try {
-            tokenResponse = await axios.post(
-                `${config.LEGION_API_URL}/integrations/oauth/token`,
-                tokenRequest,
-                {
-                    headers: { 'Content-Type': 'application/json' }
-                }
-            );
-        } catch (apiError: any) {
-            console.error('Legion API token exchange failed:', apiError.response?.status, apiError.response?.data);
-            
-            // Fallback to getting auth URL and deriving token endpoint
-            console.log('Trying token endpoint directly...');
-            
-            const authUrl = await getAuthorizationURL();
-            // Fix the token URL - ensure we're replacing the right part
-            let tokenUrl = authUrl;
-            if (authUrl.endsWith('/auth')) {
-                tokenUrl = authUrl.substring(0, authUrl.length - 5) + '/token';
-            } else {
-                // If it doesn't end with /auth, append /token
-                tokenUrl = authUrl.replace('/protocol/openid-connect', '/protocol/openid-connect/token');
-            }
-            console.log('Token URL:', tokenUrl);
-            
-            // For Keycloak, we need form-encoded data
-            tokenResponse = await axios.post(
-                tokenUrl,
-                new URLSearchParams({
-                    grant_type: 'authorization_code',
-                    code: code as string,
-                    client_id: config.CLIENT_ID,
-                    redirect_uri: config.REDIRECT_URI,
-                    ...(tokenRequest.client_secret && { client_secret: tokenRequest.client_secret })
-                }),
-                {
-                    headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
-                }
-            );
-        }
-        
-        const tokens = tokenResponse.data;
+        // Exchange code for tokens - first with Legion API, then fallback to Keycloak directly
+        const tokens = await requestToken(tokenRequest);
         
-        // If we don't have organizationId, extract it from the token
+        // Verify the token before activating anything, then take the org from it if we have no state
+        const tokenOrgId = await extractOrgIdFromToken(tokens.access_token);
         if (!organizationId) {
-            organizationId = extractOrgIdFromToken(tokens.access_token);
+            organizationId = tokenOrgId;
             if (!organizationId) {
                 throw new Error('Could not determine organization ID from token');
             }
             console.log('Extracted organization ID:', organizationId);
+        } else if (tokenOrgId && tokenOrgId !== organizationId) {
+            throw new JwtVerificationError(`Token was issued for organization ${tokenOrgId}, expected ${organizationId}`);
         }
         
         // Store organization data
-        activeOrganizations.set(organizationId, {
-            tokens: tokens,
-            activatedAt: new Date()
-        });
+        await tokenManager.activateOrganization(organizationId, tokens);
         
         // Success page
         res.send(`
@@ -437,68 +656,81 @@ app.get('/oauth/callback', async (req: express.Request, res: express.Response):
         
     } catch (error: any) {
         console.error('Token exchange error:', error);
+        if (error instanceof JwtVerificationError) {
+            res.status(401).send(`Token verification failed: ${error.message}`);
+            return;
+        }
         res.status(500).send(`Failed to complete OAuth flow: ${error.message}`);
     }
 });
 
+// Units of the weather route's numeric fields as observations give them
+const WEATHER_ROUTE_SI_UNITS = {
+    temperature: SI_UNITS.temperature,
+    feels_like: SI_UNITS.temperature,
+    temp_min: SI_UNITS.temperature,
+    temp_max: SI_UNITS.temperature,
+    humidity: SI_UNITS.percent,
+    wind_speed: SI_UNITS.speed,
+    pressure: SI_UNITS.pressure
+};
+
 /**
  * Get weather data for an organization
  */
-app.get('/api/weather/:orgId', async (req: express.Request, res: express.Response): Promise<void> => {
-    const { orgId } = req.params;
-    const { city = 'San Francisco', units = 'metric' } = req.query;
-    const orgData = activeOrganizations.get(orgId);
+app.get('/api/weather/:orgId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { city = 'San Francisco', units = 'metric' } = req.query as Record<string, string | undefined>;
     
-    if (!orgData || !orgData.tokens) {
-        res.status(401).json({ error: 'Organization not authorized' });
+    if (!isUnitSystem(units)) {
+        res.status(400).json({ error: `units must be one of: ${UNIT_SYSTEMS.join(', ')}` });
         return;
     }
     
-    if (!config.OPENWEATHER_API_KEY) {
-        res.status(500).json({ error: 'OpenWeather API key not configured' });
+    const provider = await providerFor(req.params.orgId);
+    if (!provider.configured) {
+        sendLegionError(res, new ProviderNotConfiguredError(provider.label));
         return;
     }
     
     try {
         // Debug log
-        console.log('Weather request for city:', city, 'units:', units);
-        
-        // Call OpenWeather API
-        const weatherResponse = await axios.get('https://api.openweathermap.org/data/2.5/weather', {
-            params: {
-                q: city as string,
-                appid: config.OPENWEATHER_API_KEY,
-                units: units as string
-            }
-        });
+        console.log('Weather request for city:', city, 'units:', units, 'provider:', provider.name);
         
-        const data = weatherResponse.data;
+        const observation = await provider.current({ city });
+        const outputUnits = unitsIn(WEATHER_ROUTE_SI_UNITS, SYSTEM_UNITS[units]);
+        const values = convertFields({
+            temperature: observation.temperature,
+            feels_like: observation.feelsLike,
+            temp_min: observation.tempMin,
+            temp_max: observation.tempMax,
+            humidity: observation.humidity,
+            wind_speed: observation.windSpeed,
+            pressure: observation.pressure
+        }, WEATHER_ROUTE_SI_UNITS, outputUnits);
         
         // Format the response
         const weatherData = {
-            location: `${data.name}, ${data.sys.country}`,
-            temperature: Math.round(data.main.temp),
-            description: data.weather[0].description,
-            humidity: data.main.humidity,
-            wind_speed: data.wind.speed,
-            feels_like: Math.round(data.main.feels_like),
-            temp_min: Math.round(data.main.temp_min),
-            temp_max: Math.round(data.main.temp_max),
-            pressure: data.main.pressure,
-            icon: data.weather[0].icon,
-            timestamp: new Date().toISOString()
+            location: observation.place ? describePlace({ ...observation.place, state: null }) : city,
+            ...values,
+            description: observation.description,
+            icon: observation.icon,
+            provider: provider.name,
+            units: outputUnits,
+            timestamp: observation.observedAt
         };
         
         res.json(weatherData);
     } catch (error: any) {
         console.error('Failed to get weather:', error.response?.data || error.message);
-        console.error('Request URL:', error.config?.url);
-        console.error('Request params:', error.config?.params);
         
-        if (error.response?.status === 404) {
+        if (error instanceof LocationNotFoundError) {
             res.status(404).json({ error: 'City not found' });
+        } else if (error instanceof QuotaExceededError) {
+            sendQuotaExceeded(res, error);
         } else if (error.response?.status === 401) {
-            res.status(500).json({ error: 'Invalid OpenWeather API key' });
+            res.status(500).json({ error: `Invalid ${provider.label} API key` });
+        } else if (error instanceof CircuitOpenError || error.response?.status === 429) {
+            res.status(503).json({ error: `${provider.label} is temporarily unavailable. Please try again shortly.` });
         } else {
             res.status(500).json({ error: 'Failed to fetch weather data' });
         }
@@ -506,38 +738,63 @@ app.get('/api/weather/:orgId', async (req: express.Request, res: express.Respons
 });
 
 /**
- * Create or get weather feed definition
+ * Get the organization's feed definition for the current version of a feed's schema.
+ * An out-of-date definition is migrated in place when the spec allows it, otherwise a new
+ * definition is created for the new version; older ones are left alone for their existing messages.
  */
-async function ensureWeatherFeedDefinition(orgId: string): Promise<any> {
+async function ensureFeedDefinition(orgId: string, spec: FeedSpec): Promise<FeedDefinition> {
     // Check cache first
-    const cacheKey = `${orgId}-${WEATHER_FEED_NAME}`;
-    if (feedDefinitionCache.has(cacheKey)) {
-        return feedDefinitionCache.get(cacheKey);
+    const cacheKey = `${orgId}-${spec.name}`;
+    const cached = await feedDefinitionCache.get(cacheKey);
+    if (cached && (cached.version ?? 0) === spec.version) {
+        return cached;
     }
     
+    const client = legionClient(orgId);
+    const definition = {
+        feed_name: spec.name,
+        description: `${spec.description} (schema v${spec.version})`,
+        category: 'MESSAGE',
+        data_type: 'application/json',
+        is_active: true,
+        is_template: false,
+        schema: spec.schema,
+        version: spec.version
+    };
+    
     try {
-        // Search for existing feed definition
-        const searchResponse = await legionApiRequest(orgId, '/feeds/definitions/search', 'POST', {
-            types: [WEATHER_FEED_NAME]
-        });
+        // Search for existing feed definitions; the search may match other feeds too
+        const existing = (await client.searchFeedDefinitions({ types: [spec.name] }))
+            .filter(feedDef => !feedDef.feed_name || feedDef.feed_name === spec.name);
+        
+        let feedDef = existing.find(candidate => (candidate.version ?? 0) === spec.version);
         
-        if (searchResponse.results && searchResponse.results.length > 0) {
-            const feedDef = searchResponse.results[0];
-            feedDefinitionCache.set(cacheKey, feedDef);
-            return feedDef;
+        const migratable = existing.find(candidate => spec.migratesFrom.includes(candidate.version ?? 0));
+        if (!feedDef && migratable) {
+            try {
+                feedDef = await client.updateFeedDefinition(migratable.id, {
+                    description: definition.description,
+                    schema: definition.schema,
+                    version: definition.version
+                });
+                console.log(`Migrated ${spec.name} feed definition for org ${orgId} from v${migratable.version ?? 0} to v${spec.version}`);
+            } catch (error: any) {
+                if (!(error instanceof LegionApiError) || error.status === null || error.status >= 500) {
+                    throw error;
+                }
+                console.log(`Could not migrate ${spec.name} feed definition in place (${error.status}), creating v${spec.version}`);
+            }
         }
         
-        // Create new feed definition
-        const feedDef = await legionApiRequest(orgId, '/feeds/definitions', 'POST', {
-            feed_name: WEATHER_FEED_NAME,
-            description: WEATHER_FEED_DESCRIPTION,
-            category: 'MESSAGE',
-            data_type: 'application/json',
-            is_active: true,
-            is_template: false
-        });
+        if (!feedDef) {
+            feedDef = await client.createFeedDefinition(definition);
+            console.log(`Created ${spec.name} feed definition v${spec.version} for org ${orgId}`);
+        }
         
-        feedDefinitionCache.set(cacheKey, feedDef);
+        // Some Legion versions don't echo fields they don't know; record what we registered
+        feedDef = { ...feedDef, version: feedDef.version ?? spec.version };
+        
+        await feedDefinitionCache.set(cacheKey, feedDef);
         return feedDef;
     } catch (error) {
         console.error('Failed to ensure feed definition:', error);
@@ -546,95 +803,259 @@ async function ensureWeatherFeedDefinition(orgId: string): Promise<any> {
 }
 
 /**
- * Get weather stations for an organization
+ * Find an organization's weather station entities in Legion
  */
-app.get('/api/weather-stations/:orgId', async (req: express.Request, res: express.Response): Promise<void> => {
-    const { orgId } = req.params;
-    
-    try {
-        // Get stations from cache first
-        let stations = weatherStations.get(orgId) || [];
+async function searchWeatherStations(orgId: string): Promise<Entity[]> {
+    return legionClient(orgId).searchEntities({
+        organization_id: orgId,
+        filters: {
+            category: ['SENSOR'],
+            types: ['weather_station']
+        }
+    });
+}
+
+/**
+ * Feed messages from many stations are sent to Legion in batches per organization
+ */
+const feedBatcher = new FeedBatcher(legionClient, {
+    maxBatchSize: config.FEED_BATCH_MAX_SIZE,
+    maxWaitMs: config.FEED_BATCH_MAX_WAIT_MS,
+    concurrency: config.FEED_BATCH_CONCURRENCY
+});
+
+/**
+ * Feed messages are written to the store before they are sent, and replayed while Legion is unreachable
+ */
+const feedQueue = new FeedQueue(
+    store.feedQueue,
+    store.deadLetters,
+    async (orgId, messages) => {
+        const errors: Array<Error | null> = messages.map(() => null);
+        const requests: Array<{ index: number; request: CreateFeedMessageRequest<any> }> = [];
         
-        // If no cached stations, search in Legion
-        if (stations.length === 0) {
-            const searchResponse = await legionApiRequest(orgId, '/entities/search', 'POST', {
-                organization_id: orgId,
-                filters: {
-                    category: ['SENSOR'],
-                    types: ['weather_station']
+        for (const [index, message] of messages.entries()) {
+            try {
+                const spec = FEED_SPECS[message.feedName];
+                if (!spec) {
+                    throw new Error(`Unknown feed: ${message.feedName}`);
                 }
-            });
-            
-            // Handle different response formats
-            if (searchResponse && searchResponse.results) {
-                stations = searchResponse.results;
-            } else if (Array.isArray(searchResponse)) {
-                stations = searchResponse;
-            } else {
-                stations = [];
+                
+                // Queued messages may predate a schema change
+                assertValidPayload(spec, message.payload);
+                
+                const feedDef = await ensureFeedDefinition(orgId, spec);
+                requests.push({
+                    index,
+                    request: {
+                        entity_id: message.entityId,
+                        feed_definition_id: feedDef.id,
+                        recorded_at: message.recordedAt,
+                        payload: message.payload
+                    }
+                });
+            } catch (error: any) {
+                // Nothing after it goes out, so the entity's messages still arrive in order
+                errors[index] = error;
+                errors.fill(new FeedMessageNotSentError(), index + 1);
+                break;
+            }
+        }
+        
+        const results = await feedBatcher.submitAll(orgId, requests.map(({ request }) => request));
+        results.forEach((result, position) => {
+            if (!result.ok) {
+                errors[requests[position].index] = result.error;
             }
-            weatherStations.set(orgId, stations);
+        });
+        return errors;
+    },
+    {
+        maxSize: config.FEED_QUEUE_MAX_SIZE,
+        retryIntervalMs: config.FEED_QUEUE_RETRY_INTERVAL_MS
+    }
+);
+
+/**
+ * Keeps the station cache in line with Legion for every org that can read entities
+ */
+const stationReconciler = new StationReconciler(
+    activeOrganizations,
+    weatherStations,
+    searchWeatherStations,
+    org => org.status === 'active' && org.scopes.includes(SCOPES.ENTITIES_READ),
+    { intervalMs: config.STATION_RECONCILE_INTERVAL_MS }
+);
+
+/**
+ * Get an organization's weather stations, from the cache or else from Legion
+ */
+async function loadWeatherStations(orgId: string): Promise<Entity[]> {
+    // Get stations from cache first
+    const stations = await weatherStations.get(orgId);
+    if (stations && stations.length > 0) {
+        return stations;
+    }
+    
+    // If no cached stations, reconcile with Legion
+    await stationReconciler.reconcile(orgId);
+    return (await weatherStations.get(orgId)) || [];
+}
+
+/**
+ * Find a weather station in the cache, or else in Legion (caching it). Null if there is no such station.
+ */
+async function findWeatherStation(orgId: string, stationId: string): Promise<Entity | null> {
+    const stations = (await weatherStations.get(orgId)) || [];
+    const station = stations.find(s => s.id === stationId);
+    if (station) {
+        return station;
+    }
+    
+    const entity = await legionClient(orgId).getEntity(stationId).catch(error => {
+        if (error instanceof LegionApiError && error.status === 404) {
+            return null;
+        }
+        throw error;
+    });
+    if (!entity || entity.type !== 'weather_station') {
+        return null;
+    }
+    
+    stations.push(entity);
+    await weatherStations.set(orgId, stations);
+    return entity;
+}
+
+/**
+ * Get weather stations for an organization. ?refresh=true reconciles with Legion first.
+ */
+app.get('/api/weather-stations/:orgId', requireScopes(SCOPES.ENTITIES_READ), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId } = req.params;
+    
+    try {
+        if (req.query.refresh === 'true') {
+            await stationReconciler.reconcile(orgId);
         }
+        const stations = await loadWeatherStations(orgId);
+        const polling = await stationScheduler.pollingState(orgId, stations);
         
-        res.json({ stations });
+        res.json({
+            stations: stations.map(station => ({ ...station, polling: polling[station.id] })),
+            reconciliation: stationReconciler.lastReport(orgId)
+        });
     } catch (error: any) {
         console.error('Failed to get weather stations:', error);
-        console.error('Error details:', error.response?.data || error.message);
+        console.error('Error details:', error.body || error.message);
         
         // If it's a 404, return empty array as there are no stations yet
-        if (error.response?.status === 404 || error.code === 'ERR_BAD_REQUEST') {
+        if (error instanceof LegionApiError && error.status === 404) {
             console.log('No weather stations found yet, returning empty array');
             res.json({ stations: [] });
         } else {
-            res.status(500).json({ error: error.message });
+            sendLegionError(res, error);
         }
     }
 });
 
 /**
- * Create a new weather station
+ * Create a new weather station, placed by coordinates, a postal code or a city query.
+ * A city query matching several places answers 300 with the candidates to pick from.
  */
-app.post('/api/weather-stations/:orgId', async (req: express.Request, res: express.Response): Promise<void> => {
+app.post('/api/weather-stations/:orgId', requireScopes(SCOPES.ENTITIES_WRITE, SCOPES.FEEDS_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
     const { orgId } = req.params;
-    const { city } = req.body;
+    const { city, zip, country, lat, lon, air_quality, weather_provider } = req.body || {};
     
-    if (!city) {
+    const coordinatesGiven = lat !== undefined || lon !== undefined;
+    const locators = [coordinatesGiven, zip !== undefined, city !== undefined].filter(Boolean).length;
+    if (locators !== 1) {
+        res.status(400).json({ error: 'Send exactly one of: lat and lon, zip (with optional country), or city' });
+        return;
+    }
+    if (coordinatesGiven && !isValidCoordinates(lat, lon)) {
+        res.status(400).json({ error: 'lat and lon must be given together, with lat in [-90, 90] and lon in [-180, 180]' });
+        return;
+    }
+    if (zip !== undefined && (typeof zip !== 'string' || !zip.trim())) {
+        res.status(400).json({ error: 'zip must be a non-empty string' });
+        return;
+    }
+    if (city !== undefined && (typeof city !== 'string' || !city.trim())) {
         res.status(400).json({ error: 'City name is required' });
         return;
     }
+    if (air_quality !== undefined && typeof air_quality !== 'boolean') {
+        res.status(400).json({ error: 'air_quality must be a boolean' });
+        return;
+    }
+    if (weather_provider !== undefined && !isProviderName(weather_provider)) {
+        res.status(400).json({ error: `weather_provider must be one of: ${PROVIDER_NAMES.join(', ')}` });
+        return;
+    }
     
-    if (!config.OPENWEATHER_API_KEY) {
-        res.status(500).json({ error: 'OpenWeather API key not configured' });
+    // Places come from the provider the station will use
+    const provider = weather_provider !== undefined ? providers[weather_provider as ProviderName] : await providerFor(orgId);
+    if (!provider.configured) {
+        sendLegionError(res, new ProviderNotConfiguredError(provider.label));
         return;
     }
     
     try {
-        // Get city coordinates
-        const coords = await getCityCoordinates(city, config.OPENWEATHER_API_KEY);
-        if (!coords) {
-            res.status(404).json({ error: 'City not found' });
-            return;
-        }
+        let coords: GeocodeCandidate;
         
-        // Create entity in Legion
-        const entity = await legionApiRequest(orgId, '/entities', 'POST', {
-            organization_id: orgId,
-            name: `Weather Station - ${coords.name}, ${coords.country}`,
-            category: 'SENSOR',
-            type: 'weather_station',
-            status: 'active',
+        if (coordinatesGiven) {
+            const place = await provider.reverseGeocode(lat, lon);
+            if (!place) {
+                res.status(422).json({ error: 'No place found at these coordinates' });
+                return;
+            }
+            coords = place;
+        } else if (zip !== undefined) {
+            const place = await provider.lookupZip(zip.trim(), country);
+            if (!place) {
+                res.status(404).json({ error: 'Postal code not found' });
+                return;
+            }
+            coords = place;
+        } else {
+            const result = await provider.searchCity(city.trim());
+            if (result.status === 'not_found') {
+                res.status(404).json({ error: 'City not found' });
+                return;
+            }
+            if (result.status === 'ambiguous') {
+                sendCandidates(res, city.trim(), result.candidates);
+                return;
+            }
+            coords = result.place;
+        }
+        
+        // Create entity in Legion
+        const entity = await legionClient(orgId).createEntity({
+            organization_id: orgId,
+            name: stationName(coords.name, coords.country),
+            category: 'SENSOR',
+            type: 'weather_station',
+            status: 'active',
             metadata: {
                 city: coords.name,
+                state: coords.state,
                 country: coords.country,
+                ...(zip !== undefined ? { zip: zip.trim() } : {}),
                 lat: coords.lat,
                 lon: coords.lon,
-                capabilities: ['temperature', 'humidity', 'pressure', 'wind', 'visibility']
+                ...(weather_provider !== undefined ? { weather_provider } : {}),
+                capabilities: withCapability(
+                    ['temperature', 'humidity', 'pressure', 'wind', 'visibility', 'forecast'],
+                    AIR_QUALITY_CAPABILITY,
+                    air_quality === true
+                )
             }
         });
         
         // Add location to the entity
         const ecef = latLonToECEF(coords.lat, coords.lon);
-        await legionApiRequest(orgId, `/entities/${entity.id}/locations`, 'POST', {
+        await legionClient(orgId).createEntityLocation(entity.id, {
             position: {
                 type: 'Point',
                 coordinates: [ecef.x, ecef.y, ecef.z]
@@ -643,12 +1064,16 @@ app.post('/api/weather-stations/:orgId', async (req: express.Request, res: expre
         });
         
         // Update cache
-        const stations = weatherStations.get(orgId) || [];
+        const stations = (await weatherStations.get(orgId)) || [];
         stations.push(entity);
-        weatherStations.set(orgId, stations);
+        await weatherStations.set(orgId, stations);
         
         // Ensure feed definition exists
-        await ensureWeatherFeedDefinition(orgId);
+        await ensureFeedDefinition(orgId, WEATHER_CONDITIONS_FEED);
+        await ensureFeedDefinition(orgId, WEATHER_FORECAST_FEED);
+        if (air_quality === true) {
+            await ensureFeedDefinition(orgId, AIR_QUALITY_FEED);
+        }
         
         res.json({ 
             message: 'Weather station created successfully',
@@ -656,150 +1081,1310 @@ app.post('/api/weather-stations/:orgId', async (req: express.Request, res: expre
         });
     } catch (error: any) {
         console.error('Failed to create weather station:', error);
-        res.status(500).json({ error: error.message });
+        sendLegionError(res, error);
     }
 });
 
 /**
- * Update weather data for a station
+ * Publish a raised or cleared alert to the station's weather_alert feed and/or as an alert entity, as the rule asks
  */
-app.post('/api/weather-stations/:orgId/:stationId/update', async (req: express.Request, res: express.Response): Promise<void> => {
-    const { orgId, stationId } = req.params;
+async function publishAlert(orgId: string, event: AlertEvent): Promise<string | null> {
+    const { rule, station } = event;
+    const message = describeAlert(event);
+    let entityId = event.entityId;
+    
+    if (rule.publishTo.includes('entity')) {
+        const client = legionClient(orgId);
+        const metadata = {
+            station_id: station.id,
+            alert_id: event.alertId,
+            rule_id: rule.id,
+            severity: rule.severity,
+            metric: rule.metric,
+            value: event.value,
+            message,
+            raised_at: event.raisedAt,
+            cleared_at: event.clearedAt
+        };
+        
+        if (event.state === 'raised') {
+            const entity = await client.createEntity({
+                organization_id: orgId,
+                name: `${rule.name} - ${station.name}`,
+                category: 'ALERT',
+                type: 'weather_alert',
+                status: 'active',
+                metadata
+            });
+            entityId = entity.id;
+            
+            // Put the alert on the map where its station is
+            const { lat, lon } = station.metadata;
+            if (isValidCoordinates(lat, lon)) {
+                const ecef = latLonToECEF(lat, lon);
+                await client.createEntityLocation(entity.id, {
+                    position: {
+                        type: 'Point',
+                        coordinates: [ecef.x, ecef.y, ecef.z]
+                    },
+                    recorded_at: event.raisedAt
+                });
+            }
+        } else if (entityId) {
+            await client.updateEntity(entityId, { status: 'inactive', metadata });
+        }
+    }
     
+    if (rule.publishTo.includes('feed')) {
+        const payload: WeatherAlertPayload = {
+            alert_id: event.alertId,
+            state: event.state,
+            rule_id: rule.id,
+            rule_name: rule.name,
+            severity: rule.severity,
+            metric: rule.metric,
+            operator: rule.operator,
+            value: event.value,
+            message,
+            raised_at: event.raisedAt
+        };
+        if (rule.threshold !== null) {
+            payload.threshold = rule.threshold;
+        }
+        if (event.clearedAt) {
+            payload.cleared_at = event.clearedAt;
+        }
+        if (entityId) {
+            payload.alert_entity_id = entityId;
+        }
+        
+        assertValidPayload(WEATHER_ALERT_FEED, payload);
+        await feedQueue.publish({
+            orgId,
+            entityId: station.id,
+            feedName: WEATHER_ALERT_FEED.name,
+            recordedAt: event.clearedAt || event.raisedAt,
+            payload
+        });
+    }
+    
+    return entityId;
+}
+
+/**
+ * Severe weather rules, checked against every station reading
+ */
+const alertEngine = new AlertEngine(
+    alertRules,
+    alertStates,
+    publishAlert,
+    numericFields(WEATHER_CONDITIONS_FEED.schema)
+);
+
+const CONDITIONS_UNITS = fieldUnits(WEATHER_CONDITIONS_FEED.schema);
+
+/**
+ * A provider observation as a weather_conditions feed payload: SI values in the units the schema gives, which the payload lists
+ */
+function toConditionsPayload(observation: WeatherObservation): WeatherConditionsPayload {
+    const values = convertFields({
+        temperature: observation.temperature,
+        feels_like: observation.feelsLike,
+        humidity: observation.humidity,
+        pressure: observation.pressure,
+        visibility: observation.visibility ?? undefined,
+        wind_speed: observation.windSpeed,
+        wind_direction: observation.windDirection ?? undefined,
+        weather: observation.condition,
+        weather_description: observation.description,
+        clouds: observation.clouds,
+        timestamp: observation.observedAt
+    }, unitsIn(CONDITIONS_UNITS, SI_UNITS), CONDITIONS_UNITS);
+    
+    return { ...values, units: CONDITIONS_UNITS };
+}
+
+/**
+ * When the latest reading published to each station's feeds was taken. A poll answered from the
+ * provider cache, or before the provider has a new observation, gets the same reading back.
+ */
+const lastPublishedReadings = new Map<string, string>();
+const readingKey = (orgId: string, stationId: string, feedName: string) => `${orgId}:${stationId}:${feedName}`;
+
+/**
+ * Fetch current weather for a station and publish it to its feed, keeping it queued if Legion can't take it right now.
+ * A reading that was already published is left out, and so is its alert check: the result is then null.
+ * Used by the update route and by scheduled polling.
+ */
+async function pollStation(orgId: string, station: Entity): Promise<{
+    result: PublishResult | null;
+    payload: WeatherConditionsPayload;
+    alerts: AlertEvent[];
+    airQuality: AirQualityPayload | null;
+}> {
+    const provider = await providerFor(orgId, station);
+    const observation = await provider.current(stationLocation(station));
+    const payload = toConditionsPayload(observation);
+    
+    assertValidPayload(WEATHER_CONDITIONS_FEED, payload);
+    
+    let result: PublishResult | null = null;
+    let alerts: AlertEvent[] = [];
+    const key = readingKey(orgId, station.id, WEATHER_CONDITIONS_FEED.name);
+    if (lastPublishedReadings.get(key) !== payload.timestamp) {
+        result = await feedQueue.publish({
+            orgId,
+            entityId: station.id,
+            feedName: WEATHER_CONDITIONS_FEED.name,
+            recordedAt: payload.timestamp,
+            payload
+        });
+        lastPublishedReadings.set(key, payload.timestamp);
+        
+        // A failing rule check must not lose the reading, which is already queued
+        try {
+            alerts = await alertEngine.evaluate(orgId, station, { ...payload, [CONDITION_CODE_METRIC]: observation.conditionCode });
+        } catch (error: any) {
+            console.error(`Failed to evaluate alert rules for station ${station.id} (org ${orgId}):`, error.message);
+        }
+    }
+    
+    // Air quality is extra; the weather reading counts even when it can't be had
+    let airQuality: AirQualityPayload | null = null;
+    if (hasAirQuality(station)) {
+        try {
+            airQuality = await publishAirQuality(orgId, station);
+        } catch (error: any) {
+            console.error(`Failed to publish air quality for station ${station.id} (org ${orgId}):`, error.message);
+        }
+    }
+    
+    return { result, payload, alerts, airQuality };
+}
+
+/**
+ * Fetch current air pollution at a station and publish it to the air quality feed. Null when OpenWeather has no measurement.
+ * Air quality always comes from OpenWeather, whichever provider the station's weather comes from.
+ */
+async function publishAirQuality(orgId: string, station: Entity): Promise<AirQualityPayload | null> {
     if (!config.OPENWEATHER_API_KEY) {
-        res.status(500).json({ error: 'OpenWeather API key not configured' });
+        throw new ProviderNotConfiguredError('OpenWeather');
+    }
+    
+    const { lat, lon } = station.metadata;
+    if (!isValidCoordinates(lat, lon)) {
+        throw new Error('Air quality needs station coordinates');
+    }
+    
+    const pollutionResponse = await openWeatherUpstream.request({
+        url: 'https://api.openweathermap.org/data/2.5/air_pollution',
+        params: { lat, lon, appid: config.OPENWEATHER_API_KEY }
+    });
+    
+    const payload = toAirQualityPayload(pollutionResponse.data);
+    if (!payload) {
+        return null;
+    }
+    
+    assertValidPayload(AIR_QUALITY_FEED, payload);
+    
+    const key = readingKey(orgId, station.id, AIR_QUALITY_FEED.name);
+    if (lastPublishedReadings.get(key) !== payload.timestamp) {
+        await feedQueue.publish({
+            orgId,
+            entityId: station.id,
+            feedName: AIR_QUALITY_FEED.name,
+            recordedAt: payload.timestamp,
+            payload
+        });
+        lastPublishedReadings.set(key, payload.timestamp);
+    }
+    return payload;
+}
+
+/**
+ * Fetch the 5-day / 3-hour forecast for a station and publish it to the forecast feed as one run
+ */
+async function publishForecast(orgId: string, station: Entity): Promise<{ run: ForecastRun; results: PublishResult[] }> {
+    const provider = await providerFor(orgId, station);
+    const run = toForecastRun(await provider.forecast(stationLocation(station)));
+    for (const step of run.steps) {
+        assertValidPayload(WEATHER_FORECAST_FEED, step);
+    }
+    
+    // Each step is recorded at the time it forecasts, so the feed reads as a timeline
+    const results = await feedQueue.publishAll(run.steps.map(step => ({
+        orgId,
+        entityId: station.id,
+        feedName: WEATHER_FORECAST_FEED.name,
+        recordedAt: step.valid_at,
+        payload: step
+    })));
+    
+    await stationForecasts.set(`${orgId}:${station.id}`, { orgId, stationId: station.id, ...run });
+    return { run, results };
+}
+
+/**
+ * Publish a new forecast if the station's latest one is older than FORECAST_REFRESH_INTERVAL_MS
+ */
+async function refreshForecastIfStale(orgId: string, station: Entity) {
+    const latest = await stationForecasts.get(`${orgId}:${station.id}`);
+    if (latest && Date.now() - Date.parse(latest.issuedAt) < config.FORECAST_REFRESH_INTERVAL_MS) {
         return;
     }
     
+    try {
+        await publishForecast(orgId, station);
+    } catch (error: any) {
+        console.error(`Failed to refresh forecast for station ${station.id} (org ${orgId}):`, error.message);
+    }
+}
+
+/**
+ * Polls every station on its schedule. Orgs that need re-consent or lack the scopes are skipped until that is fixed.
+ */
+const stationScheduler = new StationScheduler(
+    stationSchedules,
+    activeOrganizations,
+    weatherStations,
+    async (orgId, station) => {
+        const { result } = await pollStation(orgId, station);
+        await refreshForecastIfStale(orgId, station);
+        return result;
+    },
+    async org => {
+        if (org.status !== 'active') {
+            return org.status;
+        }
+        if (!(await providerFor(org.orgId)).configured) {
+            return 'provider_not_configured';
+        }
+        return missingScopes(org.scopes, [SCOPES.ENTITIES_READ, SCOPES.FEEDS_WRITE]).length > 0 ? 'missing_scopes' : null;
+    },
+    async (orgId, station) => {
+        // Air quality comes from OpenWeather whatever the station's provider
+        const provider = await providerFor(orgId, station);
+        const upstreams = [weatherUpstreams[provider.name], hasAirQuality(station) ? openWeatherUpstream : undefined];
+        return upstreams.some(upstream => upstream?.quota.shouldDefer()) ? 'quota_low' : null;
+    },
+    {
+        enabled: config.POLL_ENABLED,
+        defaultIntervalMs: config.POLL_DEFAULT_INTERVAL_MS,
+        jitterRatio: config.POLL_JITTER_RATIO,
+        concurrency: config.POLL_CONCURRENCY,
+        tickMs: config.POLL_TICK_MS
+    }
+);
+
+/**
+ * Update weather data for a station
+ */
+app.post('/api/weather-stations/:orgId/:stationId/update', requireScopes(SCOPES.ENTITIES_READ, SCOPES.FEEDS_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId, stationId } = req.params;
+    
     try {
         // Get station details
-        const stations = weatherStations.get(orgId) || [];
-        const station = stations.find(s => s.id === stationId);
+        const station = await findWeatherStation(orgId, stationId);
+        if (!station) {
+            res.status(404).json({ error: 'Weather station not found' });
+            return;
+        }
+        
+        const { result, payload: feedPayload, alerts, airQuality } = await pollStation(orgId, station);
+        const alertSummary = alerts.map(event => ({ alert_id: event.alertId, state: event.state, message: describeAlert(event) }));
+        
+        if (!result) {
+            res.json({
+                message: 'Weather data unchanged since the last update',
+                unchanged: true,
+                data: feedPayload,
+                air_quality: airQuality,
+                alerts: alertSummary
+            });
+            return;
+        }
+        
+        if (result.status === 'queued') {
+            const tokenStatus = await tokenManager.getTokenStatus(orgId);
+            res.status(202).json({
+                message: 'Legion is unreachable; weather data queued for delivery',
+                queued: true,
+                queue_id: result.id,
+                error: result.error,
+                needs_reconsent: tokenStatus?.needsReconsent || false,
+                data: feedPayload,
+                air_quality: airQuality,
+                alerts: alertSummary
+            });
+            return;
+        }
+        
+        if (result.status === 'dead_lettered') {
+            res.status(502).json({
+                error: 'Legion rejected the weather data',
+                details: result.error,
+                dead_letter_id: result.id,
+                data: feedPayload,
+                air_quality: airQuality,
+                alerts: alertSummary
+            });
+            return;
+        }
+        
+        res.json({ 
+            message: 'Weather data updated successfully',
+            data: feedPayload,
+            air_quality: airQuality,
+            alerts: alertSummary
+        });
+    } catch (error: any) {
+        console.error('Failed to update weather data:', error);
+        
+        // The reading doesn't fit the feed schema, so it was never queued
+        if (error instanceof FeedPayloadValidationError) {
+            res.status(502).json({
+                error: `Weather data does not match the ${error.feedName} feed schema`,
+                details: error.errors
+            });
+            return;
+        }
         
+        sendLegionError(res, error);
+    }
+});
+
+// Station history defaults: the last day, 100 readings (or buckets) per page
+const HISTORY_DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const HISTORY_DEFAULT_LIMIT = 100;
+const HISTORY_MAX_LIMIT = 1000;
+// Longest range read from a weather provider in one request
+const HISTORY_PROVIDER_MAX_RANGE_MS = 31 * 24 * 60 * 60 * 1000;
+
+/**
+ * Read back the weather readings Legion stored for a station, or with source=provider the
+ * weather provider's own history for its location (nothing is published).
+ * Query: start, end (ISO 8601), limit, offset, bucket (e.g. 15m, 1h) to downsample, format=json|csv, source=legion|provider
+ */
+app.get('/api/weather-stations/:orgId/:stationId/history', requireScopes(SCOPES.ENTITIES_READ, SCOPES.FEEDS_READ), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId, stationId } = req.params;
+    const query = req.query as Record<string, string | undefined>;
+    
+    const end = query.end ? new Date(query.end) : new Date();
+    const start = query.start ? new Date(query.start) : new Date(end.getTime() - HISTORY_DEFAULT_RANGE_MS);
+    if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+        res.status(400).json({ error: 'start and end must be ISO 8601 dates with start before end' });
+        return;
+    }
+    
+    const limit = query.limit ? parseInt(query.limit, 10) : HISTORY_DEFAULT_LIMIT;
+    const offset = query.offset ? parseInt(query.offset, 10) : 0;
+    if (!(limit >= 1 && limit <= HISTORY_MAX_LIMIT) || !(offset >= 0)) {
+        res.status(400).json({ error: `limit must be between 1 and ${HISTORY_MAX_LIMIT}, offset at least 0` });
+        return;
+    }
+    
+    const bucketMs = query.bucket ? parseBucketSize(query.bucket) : null;
+    if (query.bucket && !bucketMs) {
+        res.status(400).json({ error: 'bucket must be a size like 30s, 15m, 1h or 1d' });
+        return;
+    }
+    
+    const format = query.format || 'json';
+    if (format !== 'json' && format !== 'csv') {
+        res.status(400).json({ error: "format must be 'json' or 'csv'" });
+        return;
+    }
+    
+    const source = query.source || 'legion';
+    if (source !== 'legion' && source !== 'provider') {
+        res.status(400).json({ error: "source must be 'legion' or 'provider'" });
+        return;
+    }
+    if (source === 'provider' && end.getTime() - start.getTime() > HISTORY_PROVIDER_MAX_RANGE_MS) {
+        res.status(400).json({ error: `Provider history covers at most ${HISTORY_PROVIDER_MAX_RANGE_MS / 86400000} days per request` });
+        return;
+    }
+    
+    const units = query.units || 'metric';
+    if (!isUnitSystem(units)) {
+        res.status(400).json({ error: `units must be one of: ${UNIT_SYSTEMS.join(', ')}` });
+        return;
+    }
+    
+    const fields = numericFields(WEATHER_CONDITIONS_FEED.schema);
+    const outputUnits = unitsIn(CONDITIONS_UNITS, SYSTEM_UNITS[units]);
+    // Readings published before payloads listed their units are in the feed's units
+    const readingsIn = (readings: Reading[]) => convertReadings(readings, CONDITIONS_UNITS, outputUnits);
+    const summary = {
+        station_id: stationId,
+        feed: WEATHER_CONDITIONS_FEED.name,
+        source,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        limit,
+        offset,
+        units: outputUnits
+    };
+    
+    const sendBuckets = (buckets: ReadingBucket[], truncated: boolean) => {
+        const page = buckets.slice(offset, offset + limit);
+        res.setHeader('X-Total-Count', String(buckets.length));
+        if (format === 'csv') {
+            res.type('text/csv').attachment(`${stationId}-history.csv`).send(bucketsToCsv(page, fields));
+            return;
+        }
+        res.json({ ...summary, bucket_seconds: bucketMs! / 1000, total: buckets.length, truncated, buckets: page });
+    };
+    
+    const sendReadings = (readings: Reading[], total: number | null) => {
+        if (total !== null) {
+            res.setHeader('X-Total-Count', String(total));
+        }
+        if (format === 'csv') {
+            const columns = Object.entries(WEATHER_CONDITIONS_FEED.schema.properties)
+                .filter(([, property]) => property.type !== 'object')
+                .map(([name]) => name);
+            res.type('text/csv').attachment(`${stationId}-history.csv`).send(readingsToCsv(readings, columns));
+            return;
+        }
+        res.json({ ...summary, total, readings });
+    };
+    
+    try {
+        const station = await findWeatherStation(orgId, stationId);
         if (!station) {
-            // Try to fetch from API
-            const entity = await legionApiRequest(orgId, `/entities/${stationId}`, 'GET');
-            if (!entity || entity.type !== 'weather_station') {
-                res.status(404).json({ error: 'Weather station not found' });
-                return;
+            res.status(404).json({ error: 'Weather station not found' });
+            return;
+        }
+        
+        if (source === 'provider') {
+            const provider = await providerFor(orgId, station);
+            const readings = readingsIn((await provider.historical(stationLocation(station), start, end))
+                .map(observation => {
+                    const payload = toConditionsPayload(observation);
+                    return { ...payload, recorded_at: payload.timestamp };
+                }));
+            
+            if (bucketMs) {
+                sendBuckets(downsample(readings, bucketMs, fields), false);
+            } else {
+                sendReadings(readings.slice(offset, offset + limit), readings.length);
             }
-            stations.push(entity);
-            weatherStations.set(orgId, stations);
+            return;
         }
         
-        const stationData = station || stations[stations.length - 1];
-        const city = stationData.metadata.city;
+        // Readings may sit under older definitions of the feed too, e.g. from before a schema version bump
+        const client = legionClient(orgId);
+        const definitions = (await client.searchFeedDefinitions({ types: [WEATHER_CONDITIONS_FEED.name] }))
+            .filter(feedDef => !feedDef.feed_name || feedDef.feed_name === WEATHER_CONDITIONS_FEED.name);
         
-        // Fetch weather data
-        const weatherResponse = await axios.get('https://api.openweathermap.org/data/2.5/weather', {
-            params: {
-                q: city,
-                appid: config.OPENWEATHER_API_KEY,
-                units: 'metric'
+        const search = {
+            entity_ids: [stationId],
+            feed_definition_ids: definitions.map(feedDef => feedDef.id),
+            start_time: start.toISOString(),
+            end_time: end.toISOString()
+        };
+        
+        if (bucketMs) {
+            // Buckets need every reading in the range, so page through all of them and page the buckets instead
+            const messages = definitions.length > 0
+                ? await client.searchFeedMessages(search, config.HISTORY_MAX_MESSAGES)
+                : [];
+            sendBuckets(downsample(readingsIn(toReadings(messages, start, end)), bucketMs, fields), messages.length >= config.HISTORY_MAX_MESSAGES);
+            return;
+        }
+        
+        const page = definitions.length > 0
+            ? await client.searchFeedMessagesPage({ ...search, limit, offset })
+            : { messages: [], total: 0 };
+        sendReadings(readingsIn(toReadings(page.messages, start, end)), page.total);
+    } catch (error: any) {
+        console.error('Failed to read weather station history:', error);
+        sendLegionError(res, error);
+    }
+});
+
+/**
+ * Latest forecast run for a station: the one published from here, or else the newest run found in Legion
+ */
+app.get('/api/weather-stations/:orgId/:stationId/forecast', requireScopes(SCOPES.ENTITIES_READ, SCOPES.FEEDS_READ), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId, stationId } = req.params;
+    
+    const units = (req.query.units as string | undefined) || 'metric';
+    if (!isUnitSystem(units)) {
+        res.status(400).json({ error: `units must be one of: ${UNIT_SYSTEMS.join(', ')}` });
+        return;
+    }
+    
+    try {
+        const station = await findWeatherStation(orgId, stationId);
+        if (!station) {
+            res.status(404).json({ error: 'Weather station not found' });
+            return;
+        }
+        
+        let run: ForecastRun | null = (await stationForecasts.get(`${orgId}:${stationId}`)) || null;
+        let source = 'cache';
+        
+        if (!run) {
+            // Steps are recorded at their valid time, so a recent run sits between yesterday and a few days ahead
+            const client = legionClient(orgId);
+            const definitions = (await client.searchFeedDefinitions({ types: [WEATHER_FORECAST_FEED.name] }))
+                .filter(feedDef => !feedDef.feed_name || feedDef.feed_name === WEATHER_FORECAST_FEED.name);
+            
+            if (definitions.length > 0) {
+                const now = Date.now();
+                const messages = await client.searchFeedMessages<WeatherForecastPayload>({
+                    entity_ids: [stationId],
+                    feed_definition_ids: definitions.map(feedDef => feedDef.id),
+                    start_time: new Date(now - 24 * 60 * 60 * 1000).toISOString(),
+                    end_time: new Date(now + 6 * 24 * 60 * 60 * 1000).toISOString()
+                }, config.HISTORY_MAX_MESSAGES);
+                run = latestForecastRun(messages);
+                source = 'legion';
             }
+        }
+        
+        if (!run) {
+            res.status(404).json({ error: 'No forecast published for this station yet' });
+            return;
+        }
+        
+        const feedUnits = fieldUnits(WEATHER_FORECAST_FEED.schema);
+        const outputUnits = unitsIn(feedUnits, SYSTEM_UNITS[units]);
+        res.json({
+            station_id: stationId,
+            forecast_id: run.forecastId,
+            issued_at: run.issuedAt,
+            source,
+            units: outputUnits,
+            steps: run.steps.map(step => convertFields(step, feedUnits, outputUnits))
         });
+    } catch (error: any) {
+        console.error('Failed to get forecast:', error);
+        sendLegionError(res, error);
+    }
+});
+
+/**
+ * Fetch a new forecast for a station now and publish it to the weather_forecast feed
+ */
+app.post('/api/weather-stations/:orgId/:stationId/forecast', requireScopes(SCOPES.ENTITIES_READ, SCOPES.FEEDS_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId, stationId } = req.params;
+    
+    try {
+        const station = await findWeatherStation(orgId, stationId);
+        if (!station) {
+            res.status(404).json({ error: 'Weather station not found' });
+            return;
+        }
         
-        const data = weatherResponse.data;
-        
-        // Prepare feed payload
-        const feedPayload = {
-            temperature: data.main.temp,
-            feels_like: data.main.feels_like,
-            humidity: data.main.humidity,
-            pressure: data.main.pressure,
-            visibility: data.visibility,
-            wind_speed: data.wind.speed,
-            wind_direction: data.wind.deg,
-            weather: data.weather[0].main,
-            weather_description: data.weather[0].description,
-            clouds: data.clouds.all,
-            timestamp: new Date().toISOString()
-        };
+        const { run, results } = await publishForecast(orgId, station);
+        const count = (status: string) => results.filter(result => result.status === status).length;
+        
+        res.status(count('delivered') === results.length ? 200 : 202).json({
+            message: 'Forecast published',
+            forecast_id: run.forecastId,
+            issued_at: run.issuedAt,
+            steps: run.steps.length,
+            delivered: count('delivered'),
+            queued: count('queued'),
+            dead_lettered: count('dead_lettered')
+        });
+    } catch (error: any) {
+        console.error('Failed to publish forecast:', error);
         
-        // Get feed definition
-        const feedDef = await ensureWeatherFeedDefinition(orgId);
+        if (error instanceof FeedPayloadValidationError) {
+            res.status(502).json({
+                error: `Forecast data does not match the ${error.feedName} feed schema`,
+                details: error.errors
+            });
+            return;
+        }
         
-        // Push data to feed
-        await legionApiRequest(orgId, '/feeds/messages', 'POST', {
-            entity_id: stationId,
-            feed_definition_id: feedDef.id,
-            recorded_at: new Date().toISOString(),
-            payload: feedPayload
+        sendLegionError(res, error);
+    }
+});
+
+/**
+ * Edit a weather station: rename it, change its status, or move it to another city or coordinates.
+ * A move is checked against the geocoder and recorded as a new location, so the location history stays intact.
+ */
+app.patch('/api/weather-stations/:orgId/:stationId', requireScopes(SCOPES.ENTITIES_READ, SCOPES.ENTITIES_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId, stationId } = req.params;
+    const { name, city, status, lat, lon, air_quality, weather_provider, polling_enabled, poll_interval_seconds } = req.body || {};
+    
+    const entityChanged = name !== undefined || city !== undefined || status !== undefined ||
+        lat !== undefined || lon !== undefined || air_quality !== undefined || weather_provider !== undefined;
+    const scheduleChanged = polling_enabled !== undefined || poll_interval_seconds !== undefined;
+    if (!entityChanged && !scheduleChanged) {
+        res.status(400).json({
+            error: 'Nothing to update; send name, city, status, lat and lon, air_quality, weather_provider, ' +
+                'polling_enabled or poll_interval_seconds'
+        });
+        return;
+    }
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        res.status(400).json({ error: 'name must be a non-empty string' });
+        return;
+    }
+    if (city !== undefined && (typeof city !== 'string' || !city.trim())) {
+        res.status(400).json({ error: 'city must be a non-empty string' });
+        return;
+    }
+    if (status !== undefined && status !== 'active' && status !== 'inactive') {
+        res.status(400).json({ error: "status must be 'active' or 'inactive'" });
+        return;
+    }
+    if (air_quality !== undefined && typeof air_quality !== 'boolean') {
+        res.status(400).json({ error: 'air_quality must be a boolean' });
+        return;
+    }
+    if (weather_provider !== undefined && weather_provider !== null && !isProviderName(weather_provider)) {
+        res.status(400).json({ error: `weather_provider must be one of: ${PROVIDER_NAMES.join(', ')}, or null for the organization's` });
+        return;
+    }
+    
+    if (polling_enabled !== undefined && typeof polling_enabled !== 'boolean') {
+        res.status(400).json({ error: 'polling_enabled must be a boolean' });
+        return;
+    }
+    if (poll_interval_seconds !== undefined && poll_interval_seconds !== null &&
+        (typeof poll_interval_seconds !== 'number' || poll_interval_seconds * 1000 < config.POLL_MIN_INTERVAL_MS)) {
+        res.status(400).json({
+            error: `poll_interval_seconds must be at least ${config.POLL_MIN_INTERVAL_MS / 1000}, or null for the default`
         });
+        return;
+    }
+    
+    const coordinatesGiven = lat !== undefined || lon !== undefined;
+    if (coordinatesGiven && !isValidCoordinates(lat, lon)) {
+        res.status(400).json({ error: 'lat and lon must be given together, with lat in [-90, 90] and lon in [-180, 180]' });
+        return;
+    }
+    
+    const moving = city !== undefined || coordinatesGiven;
+    
+    // Saved only once the rest of the change has gone through, so a rejected edit changes nothing
+    const saveSchedule = async () => {
+        if (scheduleChanged) {
+            await stationScheduler.configure(orgId, stationId, {
+                enabled: polling_enabled,
+                intervalMs: poll_interval_seconds === undefined ? undefined
+                    : poll_interval_seconds === null ? null : poll_interval_seconds * 1000
+            });
+        }
+    };
+    
+    try {
+        const station = await findWeatherStation(orgId, stationId);
+        if (!station) {
+            res.status(404).json({ error: 'Weather station not found' });
+            return;
+        }
         
-        res.json({ 
-            message: 'Weather data updated successfully',
-            data: feedPayload
+        if (!entityChanged) {
+            await saveSchedule();
+            const polling = await stationScheduler.pollingState(orgId, [station]);
+            res.json({
+                message: 'Weather station updated successfully',
+                station: { ...station, polling: polling[stationId] },
+                location_updated: false
+            });
+            return;
+        }
+        
+        const metadata = { ...station.metadata };
+        let location: { lat: number; lon: number } | null = null;
+        
+        if (weather_provider === null) {
+            delete metadata.weather_provider;
+        } else if (weather_provider !== undefined) {
+            metadata.weather_provider = weather_provider;
+        }
+        
+        // A move is geocoded by the provider the station is going to use
+        const provider = await providerFor(orgId, { ...station, metadata });
+        if (moving && !provider.configured) {
+            sendLegionError(res, new ProviderNotConfiguredError(provider.label));
+            return;
+        }
+        
+        if (moving) {
+            let place: GeocodeCandidate;
+            
+            if (city !== undefined) {
+                const result = await provider.searchCity(city.trim());
+                if (result.status === 'not_found') {
+                    res.status(404).json({ error: 'City not found' });
+                    return;
+                }
+                const candidates = result.status === 'found' ? [result.place] : result.candidates;
+                
+                if (coordinatesGiven) {
+                    // Explicit coordinates win, but they have to be in the city they claim to be in
+                    const nearest = candidates
+                        .map(candidate => ({ candidate, distance: distanceKm(lat, lon, candidate.lat, candidate.lon) }))
+                        .sort((a, b) => a.distance - b.distance)[0];
+                    if (nearest.distance > MAX_CITY_DISTANCE_KM) {
+                        res.status(422).json({
+                            error: `Coordinates are ${Math.round(nearest.distance)} km from ${describePlace(nearest.candidate)}`,
+                            geocoded: { lat: nearest.candidate.lat, lon: nearest.candidate.lon }
+                        });
+                        return;
+                    }
+                    place = { ...nearest.candidate, lat, lon };
+                } else if (result.status === 'ambiguous') {
+                    sendCandidates(res, city.trim(), result.candidates);
+                    return;
+                } else {
+                    place = result.place;
+                }
+            } else {
+                const found = await provider.reverseGeocode(lat, lon);
+                if (!found) {
+                    res.status(422).json({ error: 'No place found at these coordinates' });
+                    return;
+                }
+                place = found;
+            }
+            
+            metadata.city = place.name;
+            metadata.state = place.state;
+            metadata.country = place.country;
+            
+            if (place.lat !== station.metadata.lat || place.lon !== station.metadata.lon) {
+                metadata.lat = place.lat;
+                metadata.lon = place.lon;
+                location = { lat: place.lat, lon: place.lon };
+            }
+        }
+        
+        if (air_quality !== undefined) {
+            // Stations created by city before coordinates were stored have none to ask about
+            if (air_quality && !isValidCoordinates(metadata.lat, metadata.lon)) {
+                res.status(422).json({ error: 'Air quality needs station coordinates; send lat and lon with it' });
+                return;
+            }
+            metadata.capabilities = withCapability(metadata.capabilities, AIR_QUALITY_CAPABILITY, air_quality);
+        }
+        
+        const changes: UpdateEntityRequest = { metadata };
+        if (name !== undefined) {
+            changes.name = name.trim();
+        } else if (moving && station.name === stationName(station.metadata.city, station.metadata.country)) {
+            // Keep generated names in step with the city
+            changes.name = stationName(metadata.city, metadata.country);
+        }
+        if (status !== undefined) {
+            changes.status = status;
+        }
+        
+        const updated = await legionClient(orgId).updateEntity(stationId, changes);
+        await saveSchedule();
+        if (air_quality === true) {
+            await ensureFeedDefinition(orgId, AIR_QUALITY_FEED);
+        }
+        
+        // Add the new position; earlier locations stay as the station's history
+        if (location) {
+            const ecef = latLonToECEF(location.lat, location.lon);
+            await legionClient(orgId).createEntityLocation(stationId, {
+                position: {
+                    type: 'Point',
+                    coordinates: [ecef.x, ecef.y, ecef.z]
+                },
+                recorded_at: new Date().toISOString()
+            });
+        }
+        
+        // Update cache
+        const stations = (await weatherStations.get(orgId)) || [];
+        await weatherStations.set(orgId, stations.map(s => s.id === stationId ? updated : s));
+        
+        const polling = await stationScheduler.pollingState(orgId, [updated]);
+        res.json({
+            message: 'Weather station updated successfully',
+            station: { ...updated, polling: polling[stationId] },
+            location_updated: location !== null
         });
     } catch (error: any) {
-        console.error('Failed to update weather data:', error);
-        res.status(500).json({ error: error.message });
+        console.error('Failed to update weather station:', error);
+        sendLegionError(res, error);
     }
 });
 
 /**
  * Delete a weather station
  */
-app.delete('/api/weather-stations/:orgId/:stationId', async (req: express.Request, res: express.Response): Promise<void> => {
+app.delete('/api/weather-stations/:orgId/:stationId', requireScopes(SCOPES.ENTITIES_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
     const { orgId, stationId } = req.params;
     
     try {
-        await legionApiRequest(orgId, `/entities/${stationId}`, 'DELETE');
+        await legionClient(orgId).deleteEntity(stationId);
         
         // Update cache
-        const stations = weatherStations.get(orgId) || [];
+        const stations = (await weatherStations.get(orgId)) || [];
         const filtered = stations.filter(s => s.id !== stationId);
-        weatherStations.set(orgId, filtered);
+        await weatherStations.set(orgId, filtered);
+        await stationScheduler.remove(orgId, stationId);
+        await stationForecasts.delete(`${orgId}:${stationId}`);
+        await alertEngine.removeStation(orgId, stationId);
         
         res.json({ message: 'Weather station deleted successfully' });
     } catch (error: any) {
         console.error('Failed to delete weather station:', error);
-        res.status(500).json({ error: error.message });
+        sendLegionError(res, error);
+    }
+});
+
+/**
+ * 403 unless the organization granted entities:write, which rules publishing alert entities need
+ */
+async function checkAlertTargetScopes(orgId: string, publishTo: string[], res: express.Response): Promise<boolean> {
+    const orgData = await activeOrganizations.get(orgId);
+    const missing = publishTo.includes('entity') ? missingScopes(orgData?.scopes || [], [SCOPES.ENTITIES_WRITE]) : [];
+    if (missing.length > 0) {
+        res.status(403).json({
+            error: `Missing required scopes: ${missing.join(', ')}. Please reconnect the integration and grant them.`,
+            required_scopes: [SCOPES.ENTITIES_WRITE],
+            missing_scopes: missing
+        });
+        return false;
+    }
+    return true;
+}
+
+/**
+ * The weather provider an organization's stations use unless they name their own, and the providers to choose from
+ */
+app.get('/api/weather-provider/:orgId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const settings = await orgSettings.get(req.params.orgId);
+    
+    res.json({
+        provider: settings?.weatherProvider || defaultProvider,
+        is_default: !settings?.weatherProvider,
+        available: PROVIDER_NAMES.map(name => ({
+            name,
+            label: providers[name].label,
+            configured: providers[name].configured
+        }))
+    });
+});
+
+/**
+ * Choose the organization's weather provider: { "provider": "open-meteo" }, or null for the default
+ */
+app.put('/api/weather-provider/:orgId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId } = req.params;
+    const provider: unknown = req.body?.provider;
+    
+    if (provider !== null && !isProviderName(provider)) {
+        res.status(400).json({ error: `provider must be one of: ${PROVIDER_NAMES.join(', ')}, or null for the default` });
+        return;
+    }
+    if (provider && !providers[provider].configured) {
+        res.status(422).json({ error: `${providers[provider].label} is not configured` });
+        return;
+    }
+    
+    await orgSettings.set(orgId, { orgId, weatherProvider: provider, updatedAt: new Date().toISOString() });
+    
+    res.json({
+        message: 'Weather provider updated',
+        provider: provider || defaultProvider,
+        is_default: !provider
+    });
+});
+
+/**
+ * List an organization's alert rules
+ */
+app.get('/api/alert-rules/:orgId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const rules = await alertEngine.listRules(req.params.orgId);
+    res.json({ rules: rules.map(ruleToJson) });
+});
+
+/**
+ * Create an alert rule, e.g. { "name": "High wind", "metric": "wind_speed", "operator": "above", "threshold": 20 }
+ */
+app.post('/api/alert-rules/:orgId', requireScopes(SCOPES.FEEDS_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId } = req.params;
+    
+    try {
+        if (!(await checkAlertTargetScopes(orgId, req.body?.publish_to || [], res))) {
+            return;
+        }
+        
+        const rule = await alertEngine.createRule(orgId, req.body);
+        await ensureFeedDefinition(orgId, WEATHER_ALERT_FEED);
+        
+        res.status(201).json({ rule: ruleToJson(rule) });
+    } catch (error: any) {
+        if (error instanceof AlertRuleValidationError) {
+            res.status(400).json({ error: 'Invalid alert rule', details: error.errors });
+            return;
+        }
+        console.error('Failed to create alert rule:', error);
+        sendLegionError(res, error);
+    }
+});
+
+/**
+ * Get one alert rule
+ */
+app.get('/api/alert-rules/:orgId/:ruleId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const rule = await alertEngine.getRule(req.params.orgId, req.params.ruleId);
+    if (!rule) {
+        res.status(404).json({ error: 'Alert rule not found' });
+        return;
+    }
+    res.json({ rule: ruleToJson(rule) });
+});
+
+/**
+ * Change an alert rule; fields left out keep their values
+ */
+app.patch('/api/alert-rules/:orgId/:ruleId', requireScopes(SCOPES.FEEDS_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId, ruleId } = req.params;
+    
+    try {
+        if (!(await checkAlertTargetScopes(orgId, req.body?.publish_to || [], res))) {
+            return;
+        }
+        
+        const rule = await alertEngine.updateRule(orgId, ruleId, req.body);
+        if (!rule) {
+            res.status(404).json({ error: 'Alert rule not found' });
+            return;
+        }
+        res.json({ rule: ruleToJson(rule) });
+    } catch (error: any) {
+        if (error instanceof AlertRuleValidationError) {
+            res.status(400).json({ error: 'Invalid alert rule', details: error.errors });
+            return;
+        }
+        console.error('Failed to update alert rule:', error);
+        sendLegionError(res, error);
+    }
+});
+
+/**
+ * Delete an alert rule. Alerts it already raised in Legion are left as they are.
+ */
+app.delete('/api/alert-rules/:orgId/:ruleId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const deleted = await alertEngine.deleteRule(req.params.orgId, req.params.ruleId);
+    if (!deleted) {
+        res.status(404).json({ error: 'Alert rule not found' });
+        return;
     }
+    res.json({ message: 'Alert rule deleted successfully' });
+});
+
+/**
+ * Alerts currently raised across an organization's stations
+ */
+app.get('/api/alerts/:orgId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const active = await alertEngine.activeAlerts(req.params.orgId);
+    res.json({
+        alerts: active.map(state => ({
+            alert_id: state.alertId,
+            rule_id: state.ruleId,
+            station_id: state.stationId,
+            raised_at: state.raisedAt,
+            last_value: state.lastValue,
+            alert_entity_id: state.entityId
+        }))
+    });
+});
+
+/**
+ * Inspect an organization's feed messages waiting for delivery and its dead letters
+ */
+app.get('/api/feed-queue/:orgId', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId } = req.params;
+    
+    const pending = await feedQueue.pending(orgId);
+    const deadLetters = await feedQueue.deadLettered(orgId);
+    
+    res.json({
+        organization_id: orgId,
+        pending_count: pending.length,
+        dead_letter_count: deadLetters.length,
+        pending,
+        dead_letters: deadLetters
+    });
 });
 
 /**
- * Disconnect endpoint
+ * Deliver an organization's queued feed messages now, and move dead letters back into the queue.
+ * Body: { "ids": [...] } to retry only some dead letters.
+ */
+app.post('/api/feed-queue/:orgId/retry', requireScopes(SCOPES.FEEDS_WRITE), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId } = req.params;
+    const { ids } = req.body || {};
+    
+    if (ids !== undefined && !Array.isArray(ids)) {
+        res.status(400).json({ error: 'ids must be an array of message IDs' });
+        return;
+    }
+    
+    try {
+        await feedQueue.flush(orgId);
+        const results = await feedQueue.retryDeadLetters(orgId, ids);
+        
+        res.json({
+            retried: results,
+            pending_count: (await feedQueue.pending(orgId)).length,
+            dead_letter_count: (await feedQueue.deadLettered(orgId)).length
+        });
+    } catch (error: any) {
+        console.error('Failed to retry feed queue:', error);
+        sendLegionError(res, error);
+    }
+});
+
+/**
+ * Discard an organization's dead letters. Body: { "ids": [...] } to discard only some.
+ */
+app.delete('/api/feed-queue/:orgId/dead-letters', requireScopes(), async (req: express.Request, res: express.Response): Promise<void> => {
+    const { orgId } = req.params;
+    const { ids } = req.body || {};
+    
+    if (ids !== undefined && !Array.isArray(ids)) {
+        res.status(400).json({ error: 'ids must be an array of message IDs' });
+        return;
+    }
+    
+    const discarded = await feedQueue.discardDeadLetters(orgId, ids);
+    res.json({ discarded });
+});
+
+type StationCleanup = 'none' | 'deactivate' | 'delete';
+
+const STATION_CLEANUP_ACTIONS: StationCleanup[] = ['none', 'deactivate', 'delete'];
+
+interface CleanupReport {
+    organization_id: string;
+    tokens_revoked: {
+        refresh_token: boolean;
+        access_token: boolean;
+    };
+    queued_messages_dropped: number;
+    stations: {
+        action: StationCleanup;
+        processed: string[];
+        failed: { id: string; error: string }[];
+    };
+    errors: string[];
+}
+
+/**
+ * Disconnect an organization: clean up its weather stations in Legion, revoke its tokens
+ * and drop everything we keep locally. Best effort - failures are reported, not thrown.
+ */
+async function cleanupOrganization(orgId: string, stationCleanup: StationCleanup): Promise<CleanupReport> {
+    const report: CleanupReport = {
+        organization_id: orgId,
+        tokens_revoked: { refresh_token: false, access_token: false },
+        queued_messages_dropped: 0,
+        stations: { action: stationCleanup, processed: [], failed: [] },
+        errors: []
+    };
+    
+    // Stations first - this needs the tokens we are about to revoke
+    if (stationCleanup !== 'none') {
+        try {
+            const stations = await searchWeatherStations(orgId);
+            
+            for (const station of stations) {
+                try {
+                    if (stationCleanup === 'delete') {
+                        await legionClient(orgId).deleteEntity(station.id);
+                    } else {
+                        await legionClient(orgId).updateEntity(station.id, { status: 'inactive' });
+                    }
+                    report.stations.processed.push(station.id);
+                } catch (error: any) {
+                    report.stations.failed.push({ id: station.id, error: error.message });
+                }
+            }
+        } catch (error: any) {
+            report.errors.push(`Failed to list weather stations: ${error.message}`);
+        }
+    }
+    
+    // Revoke the refresh token first; Keycloak ends the session with it
+    const orgData = await activeOrganizations.get(orgId);
+    if (orgData) {
+        const tokensToRevoke: ['refresh_token' | 'access_token', string | undefined][] = [
+            ['refresh_token', orgData.tokens.refresh_token],
+            ['access_token', orgData.tokens.access_token]
+        ];
+        
+        for (const [tokenType, token] of tokensToRevoke) {
+            if (!token) {
+                continue;
+            }
+            try {
+                await revokeToken(token, tokenType);
+                report.tokens_revoked[tokenType] = true;
+            } catch (error: any) {
+                report.errors.push(`Failed to revoke ${tokenType}: ${error.response?.status || error.message}`);
+            }
+        }
+    }
+    
+    // Undelivered feed messages can't be sent once the tokens are gone
+    report.queued_messages_dropped = await feedQueue.purgeOrganization(orgId);
+    
+    // Remove from active organizations
+    await activeOrganizations.delete(orgId);
+    
+    // Clear cached weather stations and name
+    await weatherStations.delete(orgId);
+    stationReconciler.forget(orgId);
+    await stationScheduler.removeOrganization(orgId);
+    await alertEngine.removeOrganization(orgId);
+    await orgSettings.delete(orgId);
+    organizationNames.delete(orgId);
+    
+    for (const [key, forecast] of await stationForecasts.entries()) {
+        if (forecast.orgId === orgId) {
+            await stationForecasts.delete(key);
+        }
+    }
+    
+    // Clear feed definition cache for this org
+    for (const [key] of await feedDefinitionCache.entries()) {
+        if (key.startsWith(`${orgId}-`)) {
+            await feedDefinitionCache.delete(key);
+        }
+    }
+    
+    // Drop authorization requests still pending for this org
+    for (const [state, data] of await oauthStates.entries()) {
+        if (data.orgId === orgId) {
+            await oauthStates.delete(state);
+        }
+    }
+    
+    console.log(`Organization ${orgId} disconnected:`, JSON.stringify(report));
+    return report;
+}
+
+/**
+ * Disconnect endpoint. Changing the org's stations in Legion needs a request signed like the webhooks;
+ * without one only local state is cleared and the tokens are revoked.
  */
 app.post('/oauth/disconnect', async (req: express.Request, res: express.Response): Promise<void> => {
-    const { organization_id } = req.body;
+    const { organization_id, station_cleanup = 'none' } = req.body;
     
     if (!organization_id) {
         res.status(400).json({ error: 'Missing organization_id' });
         return;
     }
     
-    const orgData = activeOrganizations.get(organization_id);
+    if (!STATION_CLEANUP_ACTIONS.includes(station_cleanup)) {
+        res.status(400).json({ error: `station_cleanup must be one of: ${STATION_CLEANUP_ACTIONS.join(', ')}` });
+        return;
+    }
+    
+    if (station_cleanup !== 'none' && (!config.WEBHOOK_SECRET || !verifyWebhookSignature(req))) {
+        res.status(401).json({
+            error: 'station_cleanup other than none must be signed with WEBHOOK_SECRET (X-Legion-Signature)'
+        });
+        return;
+    }
+    
+    const orgData = await activeOrganizations.get(organization_id);
     if (!orgData) {
         res.status(404).json({ error: 'Organization not found' });
         return;
     }
     
-    // Remove from active organizations
-    activeOrganizations.delete(organization_id);
+    const report = await cleanupOrganization(organization_id, station_cleanup);
+    
+    res.json({ message: 'Disconnected successfully', cleanup: report });
+});
+
+/**
+ * Check the HMAC-SHA256 signature Legion sends with webhooks (X-Legion-Signature: sha256=<hex>)
+ */
+function verifyWebhookSignature(req: express.Request): boolean {
+    const signature = req.header('X-Legion-Signature') || '';
+    const rawBody: Buffer | undefined = (req as any).rawBody;
     
-    // Clear cached weather stations
-    weatherStations.delete(organization_id);
+    if (!rawBody || !signature.startsWith('sha256=')) {
+        return false;
+    }
     
-    // Clear feed definition cache for this org
-    for (const [key] of feedDefinitionCache.entries()) {
-        if (key.startsWith(`${organization_id}-`)) {
-            feedDefinitionCache.delete(key);
-        }
+    const expected = crypto.createHmac('sha256', config.WEBHOOK_SECRET).update(rawBody).digest();
+    const received = Buffer.from(signature.substring('sha256='.length), 'hex');
+    
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Uninstall/deactivation webhook - called by Legion when an admin removes the integration
+ */
+app.post('/webhooks/legion/uninstall', async (req: express.Request, res: express.Response): Promise<void> => {
+    if (!config.WEBHOOK_SECRET) {
+        res.status(503).json({ error: 'Webhook not configured. Please set WEBHOOK_SECRET.' });
+        return;
+    }
+    
+    if (!verifyWebhookSignature(req)) {
+        res.status(401).json({ error: 'Invalid webhook signature' });
+        return;
     }
     
-    res.json({ message: 'Disconnected successfully' });
+    const { event, organization_id, integration_id } = req.body;
+    
+    if (!organization_id) {
+        res.status(400).json({ error: 'Missing organization_id' });
+        return;
+    }
+    
+    // Ignore events for other integrations sharing this endpoint
+    if (config.INTEGRATION_ID && integration_id && integration_id !== config.INTEGRATION_ID) {
+        res.status(202).json({ message: 'Event is for another integration, ignored' });
+        return;
+    }
+    
+    console.log(`Received ${event || 'uninstall'} webhook for organization ${organization_id}`);
+    
+    const orgData = await activeOrganizations.get(organization_id);
+    if (!orgData) {
+        // Already disconnected - webhooks may be delivered more than once
+        res.json({ message: 'Organization not connected, nothing to clean up' });
+        return;
+    }
+    
+    const stationCleanup = STATION_CLEANUP_ACTIONS.includes(config.UNINSTALL_STATION_CLEANUP as StationCleanup)
+        ? config.UNINSTALL_STATION_CLEANUP as StationCleanup
+        : 'none';
+    const report = await cleanupOrganization(organization_id, stationCleanup);
+    
+    res.json({ message: 'Organization cleaned up', cleanup: report });
 });
 
 /**
  * Status endpoint
  */
-app.get('/status', (_req: express.Request, res: express.Response) => {
+app.get('/status', async (_req: express.Request, res: express.Response) => {
+    const organizations = await activeOrganizations.entries();
     const status = {
-        active_organizations: activeOrganizations.size,
-        organizations: Array.from(activeOrganizations.entries()).map(([orgId, data]) => ({
+        active_organizations: organizations.length,
+        organizations: organizations.map(([orgId, data]) => ({
             organization_id: orgId,
-            activated_at: data.activatedAt
+            status: data.status,
+            scopes: data.scopes,
+            activated_at: data.activatedAt,
+            token_expires_at: data.tokenExpiresAt,
+            last_refreshed_at: data.lastRefreshedAt,
+            needs_reconsent: data.status === 'needs_reconsent'
         }))
     };
     
@@ -809,14 +2394,22 @@ app.get('/status', (_req: express.Request, res: express.Response) => {
 /**
  * Health check endpoint
  */
-app.get('/health', (_req: express.Request, res: express.Response) => {
+app.get('/health', async (_req: express.Request, res: express.Response) => {
+    const upstreams = [legionUpstream, legionOAuthUpstream, realmUpstream, openWeatherUpstream, openMeteoUpstream].map(upstream => upstream.breaker.snapshot());
+    
     res.json({ 
-        status: 'healthy', 
+        status: upstreams.some(upstream => upstream.state !== 'closed') ? 'degraded' : 'healthy', 
         timestamp: new Date().toISOString(),
+        upstreams,
+        weatherCache: [openWeatherUpstream, openMeteoUpstream].map(upstream => upstream.snapshot()),
+        feedQueue: await feedQueue.stats(),
+        feedBatcher: feedBatcher.stats(),
         config: {
             hasClientId: !!config.CLIENT_ID,
             hasOpenWeatherKey: !!config.OPENWEATHER_API_KEY,
-            legionApiUrl: config.LEGION_API_URL
+            weatherProvider: defaultProvider,
+            legionApiUrl: config.LEGION_API_URL,
+            storeDriver: config.STORE_DRIVER
         }
     });
 });
@@ -830,20 +2423,29 @@ app.listen(config.PORT, () => {
         console.log('\n⚠️  Warning: CLIENT_ID not set. Run "yarn setup" to configure the integration.');
     }
     
+    console.log(`   Default weather provider: ${providers[defaultProvider].label}`);
+    
     if (!config.OPENWEATHER_API_KEY) {
         console.log('\n⚠️  Warning: OPENWEATHER_API_KEY not set. Please add it to your .env file.');
     } else {
         console.log(`   OpenWeather API: Configured (key: ${config.OPENWEATHER_API_KEY.substring(0, 8)}...)`);
     }
+    
+    feedQueue.start();
+    stationReconciler.start();
+    stationScheduler.start();
 });
 
 // Graceful shutdown
 process.on('SIGTERM', async () => {
     console.log('Shutting down gracefully...');
     
-    // Clear all data
-    activeOrganizations.clear();
-    oauthStates.clear();
+    // Let the store finish writing; organizations and queued feed messages survive restarts
+    feedQueue.stop();
+    stationReconciler.stop();
+    stationScheduler.stop();
+    await feedBatcher.flushAll();
+    await store.close();
     
     process.exit(0);
 });
\ No newline at end of file
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { config } from './config';
+import { getOidcEndpoints, realmUpstream } from './oidc';
+
+/**
+ * Claims we read from Legion access tokens. Organization claims vary between environments.
+ */
+export interface JwtClaims {
+    iss: string;
+    sub?: string;
+    aud?: string | string[];
+    azp?: string;
+    exp: number;
+    nbf?: number;
+    iat?: number;
+    scope?: string;
+    [claim: string]: any;
+}
+
+export class JwtVerificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'JwtVerificationError';
+    }
+}
+
+interface JwksCache {
+    keys: Map<string, crypto.KeyObject>;
+    fetchedAt: number;
+}
+
+// Keys are refetched after this long, or sooner when a token names a kid we don't know (key rotation)
+const JWKS_MAX_AGE_MS = 60 * 60 * 1000;
+// Don't let tokens with random kids make us hammer the JWKS endpoint
+const JWKS_MIN_REFETCH_INTERVAL_MS = 30 * 1000;
+
+const SUPPORTED_ALGORITHMS: Record<string, { digest: string; options?: Partial<crypto.VerifyKeyObjectInput> }> = {
+    RS256: { digest: 'sha256' },
+    RS384: { digest: 'sha384' },
+    RS512: { digest: 'sha512' },
+    PS256: { digest: 'sha256', options: { padding: crypto.constants.RSA_PKCS1_PSS_PADDING, saltLength: 32 } },
+    ES256: { digest: 'sha256', options: { dsaEncoding: 'ieee-p1363' } },
+    ES384: { digest: 'sha384', options: { dsaEncoding: 'ieee-p1363' } }
+};
+
+let jwksCache: JwksCache | null = null;
+
+async function fetchJwks(jwksUri: string): Promise<JwksCache> {
+    const response = await realmUpstream.request({ url: jwksUri });
+    const keys = new Map<string, crypto.KeyObject>();
+
+    for (const jwk of response.data.keys || []) {
+        // Skip encryption keys; only signature keys verify tokens
+        if (!jwk.kid || (jwk.use && jwk.use !== 'sig')) {
+            continue;
+        }
+        try {
+            keys.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+        } catch (error) {
+            console.warn(`Skipping unusable JWK ${jwk.kid}:`, (error as Error).message);
+        }
+    }
+
+    return { keys, fetchedAt: Date.now() };
+}
+
+async function getSigningKey(kid: string): Promise<crypto.KeyObject> {
+    const { jwksUri } = await getOidcEndpoints(config.LEGION_API_URL);
+    const age = jwksCache ? Date.now() - jwksCache.fetchedAt : Infinity;
+
+    const cachedKey = jwksCache?.keys.get(kid);
+    if (cachedKey && age < JWKS_MAX_AGE_MS) {
+        return cachedKey;
+    }
+
+    // Unknown kid usually means the realm rotated its keys
+    if (age >= JWKS_MIN_REFETCH_INTERVAL_MS) {
+        jwksCache = await fetchJwks(jwksUri);
+    }
+
+    const key = jwksCache?.keys.get(kid);
+    if (!key) {
+        throw new JwtVerificationError(`No signing key found for kid ${kid}`);
+    }
+    return key;
+}
+
+function decodeSegment(segment: string): any {
+    try {
+        return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+    } catch {
+        throw new JwtVerificationError('Malformed JWT');
+    }
+}
+
+/**
+ * Verify an access token's signature against the realm's JWKS and check exp, nbf, iss and aud/azp
+ */
+export async function verifyAccessToken(token: string): Promise<JwtClaims> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new JwtVerificationError('Invalid JWT format');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = decodeSegment(encodedHeader);
+    const claims: JwtClaims = decodeSegment(encodedPayload);
+
+    const algorithm = SUPPORTED_ALGORITHMS[header.alg];
+    if (!algorithm) {
+        throw new JwtVerificationError(`Unsupported JWT algorithm: ${header.alg}`);
+    }
+    if (!header.kid) {
+        throw new JwtVerificationError('JWT header has no kid');
+    }
+
+    const key = await getSigningKey(header.kid);
+    const signatureValid = crypto.verify(
+        algorithm.digest,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        { key, ...algorithm.options },
+        Buffer.from(encodedSignature, 'base64url')
+    );
+    if (!signatureValid) {
+        throw new JwtVerificationError('Invalid JWT signature');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const skew = config.JWT_CLOCK_SKEW_SECONDS;
+
+    if (typeof claims.exp !== 'number' || claims.exp + skew < now) {
+        throw new JwtVerificationError('JWT has expired');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf - skew > now) {
+        throw new JwtVerificationError('JWT is not valid yet');
+    }
+
+    const { issuer } = await getOidcEndpoints(config.LEGION_API_URL);
+    if (claims.iss !== issuer) {
+        throw new JwtVerificationError(`Unexpected JWT issuer: ${claims.iss}`);
+    }
+
+    // Keycloak access tokens usually carry the client in azp; aud is often just "account"
+    const audiences = Array.isArray(claims.aud) ? claims.aud : claims.aud ? [claims.aud] : [];
+    if (!audiences.includes(config.CLIENT_ID) && claims.azp !== config.CLIENT_ID) {
+        throw new JwtVerificationError('JWT was not issued for this client');
+    }
+
+    return claims;
+}
@@ -0,0 +1,438 @@
+import { Method } from 'axios';
+import { Upstream, UpstreamRequestOptions } from './resilience';
+
+/**
+ * Typed client for the Legion REST API, shared by the server and the setup script.
+ * Adds the Authorization and X-ORG-ID headers, turns failures into LegionApiErrors
+ * and smooths over list endpoints that return either `{ results: [...] }` or a bare array.
+ */
+
+export interface Organization {
+    organization_id: string;
+    organization_name: string;
+}
+
+export interface IntegrationManifest {
+    name: string;
+    version: string;
+    oauth_config: {
+        scopes: string[];
+        redirect_urls: string[];
+    };
+    [field: string]: unknown;
+}
+
+export interface OAuthClient {
+    client_id: string;
+    client_secret?: string;
+}
+
+export interface OAuthConfig {
+    id: string;
+    integration_id: string;
+    client_id: string;
+    client_secret?: string;
+    auth_flow_type: string;
+    requested_scopes: string[];
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CreateOAuthConfigRequest {
+    name: string;
+    auth_flow_type: 'authorization_code';
+    requested_scopes: string[];
+    redirect_uris: string[];
+    root_url: string;
+    client_type: 'confidential' | 'public';
+}
+
+export interface Integration {
+    id: string;
+    name: string;
+    oauth_client?: OAuthClient;
+    oauth_config?: OAuthConfig;
+}
+
+export type EntityStatus = 'active' | 'inactive';
+
+export interface Entity {
+    id: string;
+    organization_id: string;
+    name: string;
+    category: string;
+    type: string;
+    status: EntityStatus;
+    metadata: Record<string, any>;
+    created_at?: string;
+    updated_at?: string;
+}
+
+export interface CreateEntityRequest {
+    organization_id: string;
+    name: string;
+    category: string;
+    type: string;
+    status?: EntityStatus;
+    metadata?: Record<string, any>;
+}
+
+export type UpdateEntityRequest = Partial<Omit<CreateEntityRequest, 'organization_id'>>;
+
+export interface EntitySearchRequest {
+    organization_id: string;
+    filters?: {
+        category?: string[];
+        types?: string[];
+    };
+    limit?: number;
+    offset?: number;
+}
+
+export interface EntitySearchPage {
+    entities: Entity[];
+    // Total matches across all pages, when Legion reports it
+    total: number | null;
+}
+
+export interface GeoPoint {
+    type: 'Point';
+    // ECEF x, y, z in meters
+    coordinates: number[];
+}
+
+export interface CreateEntityLocationRequest {
+    position: GeoPoint;
+    recorded_at: string;
+}
+
+export interface EntityLocation extends CreateEntityLocationRequest {
+    id: string;
+    entity_id: string;
+}
+
+export interface FeedDefinition {
+    id: string;
+    feed_name: string;
+    description?: string;
+    category: string;
+    data_type: string;
+    is_active: boolean;
+    is_template: boolean;
+    // Payload JSON Schema and its version, for definitions registered with one
+    schema?: object;
+    version?: number;
+}
+
+export type CreateFeedDefinitionRequest = Omit<FeedDefinition, 'id'>;
+
+export type UpdateFeedDefinitionRequest = Partial<CreateFeedDefinitionRequest>;
+
+export interface FeedDefinitionSearchRequest {
+    types: string[];
+}
+
+export interface CreateFeedMessageRequest<P = Record<string, unknown>> {
+    entity_id: string;
+    feed_definition_id: string;
+    recorded_at: string;
+    payload: P;
+}
+
+export interface FeedMessage<P = Record<string, unknown>> extends CreateFeedMessageRequest<P> {
+    id: string;
+}
+
+export interface FeedMessageSearchRequest {
+    entity_ids?: string[];
+    feed_definition_ids?: string[];
+    // ISO 8601 bounds on recorded_at, inclusive start and exclusive end
+    start_time?: string;
+    end_time?: string;
+    limit?: number;
+    offset?: number;
+}
+
+export interface FeedMessageSearchPage<P = Record<string, unknown>> {
+    messages: FeedMessage<P>[];
+    // Total matches across all pages, when Legion reports it
+    total: number | null;
+}
+
+/**
+ * Outcome of one message in a bulk create, in request order
+ */
+export interface BulkFeedMessageResult {
+    id?: string;
+    status?: number;
+    error?: string | { code?: string; message?: string };
+}
+
+/**
+ * A Legion call that failed. `status` is null when no response came back at all
+ * (network error, timeout or an open circuit; see `code`).
+ */
+export class LegionApiError extends Error {
+    constructor(
+        public readonly method: string,
+        public readonly path: string,
+        public readonly status: number | null,
+        public readonly code: string | null,
+        public readonly body: unknown
+    ) {
+        super(`Legion API ${method} ${path} failed${status ? ` with status ${status}` : ''}${code ? ` (${code})` : ''}`);
+        this.name = 'LegionApiError';
+    }
+}
+
+export interface LegionClientOptions {
+    // Legion API base URL, including /v3
+    baseUrl: string;
+    // Sent as X-ORG-ID; leave out for user-level calls like /me/orgs
+    orgId?: string;
+    accessToken: () => Promise<string>;
+    // Called once when Legion rejects a token with 401; return a fresh one to retry with
+    refreshAccessToken?: (staleAccessToken: string) => Promise<string>;
+    // Timeouts, retries and circuit breaker to send requests through; defaults apply if omitted
+    upstream?: Upstream;
+}
+
+/**
+ * Pull the items out of a list response, whichever shape Legion used
+ */
+export function normalizeList<T>(data: any, key: string = 'results'): T[] {
+    if (Array.isArray(data)) {
+        return data;
+    }
+    if (Array.isArray(data?.[key])) {
+        return data[key];
+    }
+    if (Array.isArray(data?.results)) {
+        return data.results;
+    }
+    return [];
+}
+
+// Page size used when collecting every result of a search
+const SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Follow a search page by page until the last one (or `maxItems`), dropping repeats
+ */
+async function collectPages<T extends { id: string }>(
+    fetchPage: (limit: number, offset: number) => Promise<{ items: T[]; total: number | null }>,
+    pageSize: number,
+    maxItems: number = Infinity
+): Promise<T[]> {
+    const items: T[] = [];
+    const seen = new Set<string>();
+
+    for (let offset = 0; ; offset += pageSize) {
+        const page = await fetchPage(pageSize, offset);
+        const fresh = page.items.filter(item => !seen.has(item.id));
+        for (const item of fresh) {
+            seen.add(item.id);
+            items.push(item);
+        }
+
+        // Stop at the last page, or when Legion ignored the paging and sent the same results again
+        const lastPage = page.items.length < pageSize || (page.total !== null && items.length >= page.total);
+        if (lastPage || fresh.length === 0 || items.length >= maxItems) {
+            return items.slice(0, maxItems);
+        }
+    }
+}
+
+function toLegionApiError(method: string, path: string, error: any): LegionApiError {
+    const body = error.response?.data;
+    const code = body?.code || body?.error || error.code || null;
+    return new LegionApiError(method, path, error.response?.status ?? null, code, body);
+}
+
+export class LegionClient {
+    private readonly upstream: Upstream;
+
+    constructor(private readonly options: LegionClientOptions) {
+        this.upstream = options.upstream || new Upstream('legion');
+    }
+
+    async request<T>(method: Method, path: string, body?: unknown, requestOptions?: UpstreamRequestOptions): Promise<T> {
+        const accessToken = await this.options.accessToken();
+
+        try {
+            return await this.send<T>(accessToken, method, path, body, requestOptions);
+        } catch (error: any) {
+            if (!(error instanceof LegionApiError) || error.status !== 401 || !this.options.refreshAccessToken) {
+                throw error;
+            }
+
+            // Token was rejected before its recorded expiry (revoked, clock skew) - refresh and retry once
+            console.log(`Legion API returned 401 for ${method} ${path}, refreshing token and retrying...`);
+            const refreshedToken = await this.options.refreshAccessToken(accessToken);
+            return await this.send<T>(refreshedToken, method, path, body, requestOptions);
+        }
+    }
+
+    // Organizations
+
+    async listMyOrganizations(): Promise<Organization[]> {
+        return normalizeList<Organization>(await this.request('GET', '/me/orgs'));
+    }
+
+    // Integrations
+
+    async listIntegrations(): Promise<Integration[]> {
+        return normalizeList<Integration>(await this.request('GET', '/integrations'), 'integrations');
+    }
+
+    async listOrganizationIntegrations(orgId: string): Promise<Integration[]> {
+        return normalizeList<Integration>(await this.request('GET', `/integrations/organization/${orgId}`), 'integrations');
+    }
+
+    async createIntegration(manifest: IntegrationManifest): Promise<Integration> {
+        return this.request('POST', '/integrations', { manifest_content: manifest });
+    }
+
+    async deleteIntegration(integrationId: string): Promise<void> {
+        await this.request('DELETE', `/integrations/${integrationId}`);
+    }
+
+    // OAuth configs
+
+    async getOAuthClient(integrationId: string): Promise<OAuthConfig> {
+        return this.request('GET', `/integrations/${integrationId}/client`);
+    }
+
+    async createOAuthConfig(integrationId: string, oauthConfig: CreateOAuthConfigRequest): Promise<OAuthConfig> {
+        return this.request('POST', `/integrations/${integrationId}/oauth-configs`, oauthConfig);
+    }
+
+    // Entities
+
+    async searchEntitiesPage(search: EntitySearchRequest): Promise<EntitySearchPage> {
+        const data = await this.request<any>('POST', '/entities/search', search, { idempotent: true });
+        return {
+            entities: normalizeList<Entity>(data),
+            total: typeof data?.total === 'number' ? data.total : null
+        };
+    }
+
+    /**
+     * Every entity matching a search, following pages until the last one
+     */
+    async searchEntities(search: EntitySearchRequest, pageSize: number = SEARCH_PAGE_SIZE): Promise<Entity[]> {
+        return collectPages(async (limit, offset) => {
+            const page = await this.searchEntitiesPage({ ...search, limit, offset });
+            return { items: page.entities, total: page.total };
+        }, pageSize);
+    }
+
+    async getEntity(entityId: string): Promise<Entity> {
+        return this.request('GET', `/entities/${entityId}`);
+    }
+
+    async createEntity(entity: CreateEntityRequest): Promise<Entity> {
+        return this.request('POST', '/entities', entity);
+    }
+
+    async updateEntity(entityId: string, changes: UpdateEntityRequest): Promise<Entity> {
+        return this.request('PATCH', `/entities/${entityId}`, changes);
+    }
+
+    async deleteEntity(entityId: string): Promise<void> {
+        await this.request('DELETE', `/entities/${entityId}`);
+    }
+
+    // Entity locations
+
+    async createEntityLocation(entityId: string, location: CreateEntityLocationRequest): Promise<EntityLocation> {
+        return this.request('POST', `/entities/${entityId}/locations`, location);
+    }
+
+    // Feed definitions
+
+    async searchFeedDefinitions(search: FeedDefinitionSearchRequest): Promise<FeedDefinition[]> {
+        return normalizeList<FeedDefinition>(await this.request('POST', '/feeds/definitions/search', search, { idempotent: true }));
+    }
+
+    async createFeedDefinition(definition: CreateFeedDefinitionRequest): Promise<FeedDefinition> {
+        return this.request('POST', '/feeds/definitions', definition);
+    }
+
+    async updateFeedDefinition(definitionId: string, changes: UpdateFeedDefinitionRequest): Promise<FeedDefinition> {
+        return this.request('PATCH', `/feeds/definitions/${definitionId}`, changes);
+    }
+
+    // Feed messages
+
+    async createFeedMessage<P>(message: CreateFeedMessageRequest<P>): Promise<FeedMessage<P>> {
+        return this.request('POST', '/feeds/messages', message);
+    }
+
+    async searchFeedMessagesPage<P = Record<string, unknown>>(search: FeedMessageSearchRequest): Promise<FeedMessageSearchPage<P>> {
+        const data = await this.request<any>('POST', '/feeds/messages/search', search, { idempotent: true });
+        return {
+            messages: normalizeList<FeedMessage<P>>(data, 'messages'),
+            total: typeof data?.total === 'number' ? data.total : null
+        };
+    }
+
+    /**
+     * Every feed message matching a search, following pages until the last one or `maxMessages`
+     */
+    async searchFeedMessages<P = Record<string, unknown>>(
+        search: FeedMessageSearchRequest,
+        maxMessages?: number,
+        pageSize: number = SEARCH_PAGE_SIZE
+    ): Promise<FeedMessage<P>[]> {
+        return collectPages(async (limit, offset) => {
+            const page = await this.searchFeedMessagesPage<P>({ ...search, limit, offset });
+            return { items: page.messages, total: page.total };
+        }, pageSize, maxMessages);
+    }
+
+    /**
+     * Create several feed messages in one call. Not every Legion deployment has this endpoint;
+     * expect a 404 or 405 where it is missing.
+     */
+    async createFeedMessages<P>(messages: CreateFeedMessageRequest<P>[]): Promise<BulkFeedMessageResult[]> {
+        return normalizeList<BulkFeedMessageResult>(await this.request('POST', '/feeds/messages/batch', { messages }));
+    }
+
+    private async send<T>(
+        accessToken: string,
+        method: Method,
+        path: string,
+        body?: unknown,
+        requestOptions?: UpstreamRequestOptions
+    ): Promise<T> {
+        const headers: Record<string, string> = {
+            'Authorization': `Bearer ${accessToken}`
+        };
+
+        if (this.options.orgId) {
+            headers['X-ORG-ID'] = this.options.orgId;
+        }
+
+        if (body !== undefined) {
+            headers['Content-Type'] = 'application/json';
+        }
+
+        // Base URL already includes /v3
+        const url = `${this.options.baseUrl}${path}`;
+
+        console.log('Legion API Request:', method, url);
+
+        try {
+            const response = await this.upstream.request<T>({
+                method,
+                url,
+                headers,
+                data: body
+            }, requestOptions);
+            return response.data;
+        } catch (error: any) {
+            throw toLegionApiError(method, path, error);
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import { config } from './config';
+import { getOidcEndpoints, legionOAuthUpstream, realmUpstream } from './oidc';
+
+/**
+ * Token endpoint response. Keycloak returns refresh and expiry details alongside the access token
+ */
+export interface TokenSet {
+    access_token: string;
+    token_type?: string;
+    expires_in?: number;
+    refresh_token?: string;
+    refresh_expires_in?: number;
+    scope?: string;
+    id_token?: string;
+}
+
+/**
+ * Call the token endpoint with the given grant parameters.
+ * Tries the Legion API first, then falls back to Keycloak directly when Legion has no token
+ * route (404) or is unavailable (network error or 5xx). OAuth errors are rethrown as they are.
+ */
+export async function requestToken(grant: Record<string, string>): Promise<TokenSet> {
+    const tokenRequest: Record<string, string> = {
+        ...grant,
+        client_id: config.CLIENT_ID
+    };
+
+    // Only add client_secret if it's configured
+    if (config.CLIENT_SECRET) {
+        tokenRequest.client_secret = config.CLIENT_SECRET;
+    }
+
+    try {
+        const response = await legionOAuthUpstream.request<TokenSet>({
+            method: 'POST',
+            url: `${config.LEGION_API_URL}/integrations/oauth/token`,
+            data: tokenRequest,
+            headers: { 'Content-Type': 'application/json' }
+        });
+        return response.data;
+    } catch (apiError: any) {
+        console.error('Legion API token request failed:', apiError.response?.status, apiError.response?.data);
+
+        // Other 4xx are OAuth errors from Legion (e.g. invalid_grant) and would only be repeated by the realm
+        const status: number | undefined = apiError.response?.status;
+        if (status !== undefined && status !== 404 && status < 500) {
+            throw apiError;
+        }
+
+        // Legion has no token route or is unavailable: fall back to the realm's token endpoint
+        console.log('Trying token endpoint directly...');
+
+        const { tokenEndpoint: tokenUrl } = await getOidcEndpoints(config.LEGION_API_URL);
+        console.log('Token URL:', tokenUrl);
+
+        // For Keycloak, we need form-encoded data
+        const response = await realmUpstream.request<TokenSet>({
+            method: 'POST',
+            url: tokenUrl,
+            data: new URLSearchParams(tokenRequest),
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+        });
+        return response.data;
+    }
+}
+
+/**
+ * Revoke a token at the realm's revocation endpoint (RFC 7009)
+ */
+export async function revokeToken(token: string, tokenTypeHint: 'refresh_token' | 'access_token'): Promise<void> {
+    const { revocationEndpoint } = await getOidcEndpoints(config.LEGION_API_URL);
+    if (!revocationEndpoint) {
+        throw new Error('Realm does not advertise a revocation endpoint');
+    }
+
+    const revokeRequest: Record<string, string> = {
+        token,
+        token_type_hint: tokenTypeHint,
+        client_id: config.CLIENT_ID
+    };
+
+    if (config.CLIENT_SECRET) {
+        revokeRequest.client_secret = config.CLIENT_SECRET;
+    }
+
+    await realmUpstream.request({
+        method: 'POST',
+        url: revocationEndpoint,
+        data: new URLSearchParams(revokeRequest),
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    });
+}
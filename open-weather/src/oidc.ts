@@ -0,0 +1,139 @@
+import { resilienceOptions } from './config';
+import { Upstream } from './resilience';
+
+/**
+ * OpenID Connect endpoints of the Keycloak realm behind a Legion environment.
+ * Shared by the server and the setup script.
+ */
+export interface OidcEndpoints {
+    issuer: string;
+    authorizationEndpoint: string;
+    tokenEndpoint: string;
+    revocationEndpoint: string | null;
+    introspectionEndpoint: string | null;
+    deviceAuthorizationEndpoint: string | null;
+    jwksUri: string;
+    // false when discovery failed and the endpoints were derived from the authorization URL
+    discovered: boolean;
+}
+
+// Realm metadata rarely changes; refetch occasionally so endpoint moves are picked up without a restart
+const DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+const discoveryCache = new Map<string, { endpoints: Promise<OidcEndpoints>; fetchedAt: number }>();
+
+/**
+ * Legion's OAuth routes and the realm's endpoints each have their own circuit breaker, so Legion
+ * failing doesn't stop the fallback to the realm. Token requests are POSTs, so only a 429 resends them.
+ */
+export const legionOAuthUpstream = new Upstream('legion-oauth', resilienceOptions);
+export const realmUpstream = new Upstream('realm', resilienceOptions);
+
+/**
+ * Get authorization URL from Legion
+ */
+export async function fetchAuthorizationUrl(legionApiUrl: string): Promise<string> {
+    const response = await legionOAuthUpstream.request<{ authorization_url: string }>({
+        url: `${legionApiUrl}/integrations/oauth/authorization-url`
+    });
+
+    if (!response.data.authorization_url) {
+        throw new Error('Empty authorization URL in response');
+    }
+
+    return response.data.authorization_url;
+}
+
+/**
+ * Realm base URLs to try for discovery. Legion may hand out the legacy `/auth/realms/...` form
+ * while Keycloak serves `/realms/...`, so both are tried.
+ */
+function realmCandidates(authorizationUrl: string): string[] {
+    const realmUrl = authorizationUrl.split('/protocol/openid-connect')[0].replace(/\/$/, '');
+    const candidates = [realmUrl];
+
+    if (realmUrl.includes('/auth/realms/')) {
+        candidates.push(realmUrl.replace('/auth/realms/', '/realms/'));
+    }
+
+    return candidates;
+}
+
+async function discover(realmUrl: string): Promise<OidcEndpoints> {
+    const response = await realmUpstream.request({ url: `${realmUrl}/.well-known/openid-configuration` });
+    const metadata = response.data;
+
+    if (!metadata.issuer || !metadata.token_endpoint || !metadata.jwks_uri) {
+        throw new Error(`Incomplete OpenID configuration at ${realmUrl}`);
+    }
+
+    return {
+        issuer: metadata.issuer,
+        authorizationEndpoint: metadata.authorization_endpoint,
+        tokenEndpoint: metadata.token_endpoint,
+        revocationEndpoint: metadata.revocation_endpoint || null,
+        introspectionEndpoint: metadata.introspection_endpoint || null,
+        deviceAuthorizationEndpoint: metadata.device_authorization_endpoint || null,
+        jwksUri: metadata.jwks_uri,
+        discovered: true
+    };
+}
+
+/**
+ * Last resort: assume Keycloak's standard endpoint layout under the realm
+ */
+function deriveKeycloakEndpoints(authorizationUrl: string, realmUrl: string): OidcEndpoints {
+    const protocolUrl = `${realmUrl}/protocol/openid-connect`;
+
+    return {
+        issuer: realmUrl,
+        authorizationEndpoint: authorizationUrl,
+        tokenEndpoint: `${protocolUrl}/token`,
+        revocationEndpoint: `${protocolUrl}/revoke`,
+        introspectionEndpoint: `${protocolUrl}/token/introspect`,
+        deviceAuthorizationEndpoint: `${protocolUrl}/auth/device`,
+        jwksUri: `${protocolUrl}/certs`,
+        discovered: false
+    };
+}
+
+async function resolveEndpoints(legionApiUrl: string): Promise<OidcEndpoints> {
+    const authorizationUrl = await fetchAuthorizationUrl(legionApiUrl);
+    const candidates = realmCandidates(authorizationUrl);
+
+    for (const realmUrl of candidates) {
+        try {
+            return await discover(realmUrl);
+        } catch (error: any) {
+            console.warn(`OIDC discovery failed for ${realmUrl}:`, error.response?.status || error.message);
+        }
+    }
+
+    console.warn('Falling back to derived Keycloak endpoints');
+    return deriveKeycloakEndpoints(authorizationUrl, candidates[0]);
+}
+
+/**
+ * Discover the realm's endpoints from `.well-known/openid-configuration`, cached per Legion API URL
+ */
+export async function getOidcEndpoints(legionApiUrl: string): Promise<OidcEndpoints> {
+    const cached = discoveryCache.get(legionApiUrl);
+    if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_TTL_MS) {
+        return cached.endpoints;
+    }
+
+    const endpoints = resolveEndpoints(legionApiUrl);
+    discoveryCache.set(legionApiUrl, { endpoints, fetchedAt: Date.now() });
+
+    // Don't cache failures (e.g. Legion unreachable) or heuristic results for the full TTL
+    endpoints.then(
+        result => {
+            if (!result.discovered) {
+                discoveryCache.delete(legionApiUrl);
+            }
+        },
+        () => discoveryCache.delete(legionApiUrl)
+    );
+
+    return endpoints;
+}
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+
+/**
+ * Proof Key for Code Exchange (RFC 7636) values for a single authorization request
+ */
+export interface PkcePair {
+    codeVerifier: string;
+    codeChallenge: string;
+    codeChallengeMethod: 'S256';
+}
+
+/**
+ * Generate a random code verifier and its S256 challenge.
+ * 32 random bytes encode to a 43 character verifier, the minimum length the spec allows.
+ */
+export function generatePkcePair(): PkcePair {
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    return {
+        codeVerifier,
+        codeChallenge,
+        codeChallengeMethod: 'S256'
+    };
+}
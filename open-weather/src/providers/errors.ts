@@ -0,0 +1,19 @@
+/**
+ * The provider can't be used until its API key is set
+ */
+export class ProviderNotConfiguredError extends Error {
+    constructor(public readonly provider: string) {
+        super(`${provider} is not configured (API key missing)`);
+        this.name = 'ProviderNotConfiguredError';
+    }
+}
+
+/**
+ * A city query that matches no place
+ */
+export class LocationNotFoundError extends Error {
+    constructor(public readonly query: string) {
+        super(`Location not found: ${query}`);
+        this.name = 'LocationNotFoundError';
+    }
+}
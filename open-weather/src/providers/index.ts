@@ -0,0 +1,37 @@
+import { config } from '../config';
+import { Upstream } from '../resilience';
+import { MockProvider } from './mock';
+import { OpenMeteoProvider } from './open-meteo';
+import { OpenWeatherProvider } from './openweather';
+import { ProviderName, WeatherProvider } from './types';
+
+export * from './errors';
+export * from './types';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openweather', 'open-meteo', 'mock'];
+
+export function isProviderName(value: unknown): value is ProviderName {
+    return PROVIDER_NAMES.includes(value as ProviderName);
+}
+
+/**
+ * Every weather provider, by name. Calls go through the given upstreams so they get timeouts,
+ * retries and circuit breakers like any other outbound call.
+ */
+export function createProviders(openWeather: Upstream, openMeteo: Upstream): Record<ProviderName, WeatherProvider> {
+    return {
+        'openweather': new OpenWeatherProvider(openWeather, config.OPENWEATHER_API_KEY),
+        'open-meteo': new OpenMeteoProvider(openMeteo),
+        'mock': new MockProvider()
+    };
+}
+
+/**
+ * The provider used when neither the station nor its organization picked one (WEATHER_PROVIDER)
+ */
+export function defaultProviderName(): ProviderName {
+    if (!isProviderName(config.WEATHER_PROVIDER)) {
+        throw new Error(`Unknown WEATHER_PROVIDER: ${config.WEATHER_PROVIDER}`);
+    }
+    return config.WEATHER_PROVIDER;
+}
@@ -0,0 +1,174 @@
+import { GeocodeCandidate, GeocodeResult, toGeocodeResult } from '../geocoder';
+import { toSi } from '../units';
+import { LocationNotFoundError } from './errors';
+import { WeatherLocation, WeatherObservation, WeatherProvider } from './types';
+
+/**
+ * Made-up but plausible weather that needs no network, for demos, development and tests.
+ * Values are a function of the coordinates and the hour only, so the same request always gets
+ * the same answer: temperature follows the time of day and latitude, conditions change daily.
+ */
+const HOUR_MS = 60 * 60 * 1000;
+const STEP_HOURS = 3;
+const FORECAST_STEPS = 40;
+
+// Includes two Springfields, so ambiguous city queries can be tried offline too
+const PLACES: GeocodeCandidate[] = [
+    { name: 'London', state: 'England', country: 'GB', lat: 51.5073, lon: -0.1277 },
+    { name: 'Paris', state: 'Ile-de-France', country: 'FR', lat: 48.8589, lon: 2.32 },
+    { name: 'New York', state: 'New York', country: 'US', lat: 40.7128, lon: -74.006 },
+    { name: 'San Francisco', state: 'California', country: 'US', lat: 37.7749, lon: -122.4194 },
+    { name: 'Springfield', state: 'Illinois', country: 'US', lat: 39.799, lon: -89.644 },
+    { name: 'Springfield', state: 'Massachusetts', country: 'US', lat: 42.1015, lon: -72.5898 },
+    { name: 'Tokyo', state: null, country: 'JP', lat: 35.6828, lon: 139.7595 },
+    { name: 'Sydney', state: 'New South Wales', country: 'AU', lat: -33.8688, lon: 151.2093 }
+];
+
+const ZIPS: Record<string, GeocodeCandidate> = {
+    '10001': PLACES[2],
+    '94103': PLACES[3],
+    '62701': PLACES[4],
+    '01103': PLACES[5]
+};
+
+const CONDITIONS = [
+    { code: 800, condition: 'Clear', description: 'clear sky' },
+    { code: 801, condition: 'Clouds', description: 'few clouds' },
+    { code: 803, condition: 'Clouds', description: 'broken clouds' },
+    { code: 500, condition: 'Rain', description: 'light rain' },
+    { code: 501, condition: 'Rain', description: 'moderate rain' },
+    { code: 211, condition: 'Thunderstorm', description: 'thunderstorm' },
+    { code: 741, condition: 'Fog', description: 'fog' }
+];
+const SNOW = { code: 600, condition: 'Snow', description: 'light snow' };
+
+/**
+ * A number in [0, 1) from its parts (FNV-1a, finished with MurmurHash3's mix so close inputs spread out)
+ */
+function noise(...parts: Array<string | number>): number {
+    let hash = 0x811c9dc5;
+    for (const char of parts.join(':')) {
+        hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193);
+    }
+    hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+    hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+    return ((hash ^ (hash >>> 16)) >>> 0) / 0x100000000;
+}
+
+function round(value: number, decimals: number = 1): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+function distance(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+    return Math.hypot(a.lat - b.lat, a.lon - b.lon);
+}
+
+/**
+ * The weather at a place during the hour starting at `hourStart`
+ */
+function observe(lat: number, lon: number, hourStart: number): WeatherObservation {
+    const place = `${lat.toFixed(2)},${lon.toFixed(2)}`;
+    const hour = Math.floor(hourStart / HOUR_MS);
+    const day = Math.floor(hour / 24);
+
+    // Warmest mid-afternoon local time, cooler towards the poles
+    const localHour = (new Date(hourStart).getUTCHours() + lon / 15 + 24) % 24;
+    const temperature = 27 - Math.abs(lat) * 0.4 + 6 * Math.sin(2 * Math.PI * (localHour - 9) / 24) +
+        (noise(place, 'temperature', hour) - 0.5) * 2;
+    const windSpeed = 12 * noise(place, 'wind', hour) ** 2;
+    const weather = temperature < 1 && noise(place, 'snow', day) < 0.5
+        ? SNOW
+        : CONDITIONS[Math.floor(noise(place, 'condition', day) * CONDITIONS.length)];
+    const wet = weather.condition === 'Rain' || weather.condition === 'Thunderstorm';
+
+    return {
+        observedAt: new Date(hourStart).toISOString(),
+        temperature: toSi(round(temperature), 'Cel'),
+        feelsLike: toSi(round(temperature - windSpeed * 0.7), 'Cel'),
+        tempMin: toSi(round(temperature - 1), 'Cel'),
+        tempMax: toSi(round(temperature + 1), 'Cel'),
+        humidity: Math.round(40 + 55 * noise(place, 'humidity', hour)),
+        pressure: toSi(Math.round(1013 + (noise(place, 'pressure', day) - 0.5) * 30), 'hPa'),
+        visibility: weather.condition === 'Fog' ? 800 : wet ? 6000 : 10000,
+        windSpeed: round(windSpeed),
+        windDirection: Math.round(359 * noise(place, 'direction', hour)),
+        clouds: weather.code === 800 ? 0 : Math.round(20 + 80 * noise(place, 'clouds', day)),
+        conditionCode: weather.code,
+        condition: weather.condition,
+        description: weather.description,
+        rain: wet ? round(0.2 + 4 * noise(place, 'rain', hour)) : null,
+        snow: weather === SNOW ? round(0.2 + 2 * noise(place, 'snow', hour)) : null,
+        precipitationProbability: null,
+        place: null,
+        icon: null
+    };
+}
+
+export class MockProvider implements WeatherProvider {
+    readonly name = 'mock';
+    readonly label = 'Mock';
+    readonly configured = true;
+
+    async searchCity(query: string): Promise<GeocodeResult> {
+        const [name, ...qualifiers] = query.split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+        return toGeocodeResult(PLACES.filter(place =>
+            place.name.toLowerCase() === name &&
+            qualifiers.every(qualifier => [place.state, place.country].some(value => value?.toLowerCase() === qualifier))
+        ));
+    }
+
+    async lookupZip(zip: string, _country?: string): Promise<GeocodeCandidate | null> {
+        return ZIPS[zip] || null;
+    }
+
+    /**
+     * The nearest known place, at the coordinates asked for
+     */
+    async reverseGeocode(lat: number, lon: number): Promise<GeocodeCandidate | null> {
+        const nearest = PLACES.reduce((best, place) => distance(place, { lat, lon }) < distance(best, { lat, lon }) ? place : best);
+        return { ...nearest, lat, lon };
+    }
+
+    async current(location: WeatherLocation): Promise<WeatherObservation> {
+        const place = await this.resolve(location);
+        // The weather only changes by the hour, so that is when it was observed
+        return {
+            ...observe(place.lat, place.lon, Math.floor(Date.now() / HOUR_MS) * HOUR_MS),
+            place: { name: place.name, country: place.country }
+        };
+    }
+
+    async forecast(location: WeatherLocation): Promise<WeatherObservation[]> {
+        const { lat, lon } = await this.resolve(location);
+        const stepMs = STEP_HOURS * HOUR_MS;
+        const first = Math.ceil(Date.now() / stepMs) * stepMs;
+
+        return Array.from({ length: FORECAST_STEPS }, (_, index) => {
+            const observation = observe(lat, lon, first + index * stepMs);
+            return { ...observation, precipitationProbability: observation.rain !== null || observation.snow !== null ? 0.8 : 0.1 };
+        });
+    }
+
+    async historical(location: WeatherLocation, start: Date, end: Date): Promise<WeatherObservation[]> {
+        const { lat, lon } = await this.resolve(location);
+        const observations: WeatherObservation[] = [];
+        for (let hour = Math.ceil(start.getTime() / HOUR_MS) * HOUR_MS; hour < end.getTime(); hour += HOUR_MS) {
+            observations.push(observe(lat, lon, hour));
+        }
+        return observations;
+    }
+
+    private async resolve(location: WeatherLocation): Promise<{ name: string; country: string; lat: number; lon: number }> {
+        if (!('city' in location)) {
+            const place = (await this.reverseGeocode(location.lat, location.lon))!;
+            return { ...place, lat: location.lat, lon: location.lon };
+        }
+
+        const result = await this.searchCity(location.city);
+        if (result.status === 'not_found') {
+            throw new LocationNotFoundError(location.city);
+        }
+        return result.status === 'found' ? result.place : result.candidates[0];
+    }
+}
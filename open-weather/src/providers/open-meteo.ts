@@ -0,0 +1,247 @@
+import { GeocodeCandidate, GeocodeResult, toGeocodeResult } from '../geocoder';
+import { Upstream } from '../resilience';
+import { toSi } from '../units';
+import { LocationNotFoundError } from './errors';
+import { WeatherLocation, WeatherObservation, WeatherProvider } from './types';
+
+/**
+ * Open-Meteo (https://open-meteo.com): free, no API key. It reports WMO weather codes, which are
+ * mapped onto the nearest OpenWeather condition so alert rules and feeds read the same.
+ */
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+
+const CANDIDATE_LIMIT = 5;
+const FORECAST_DAYS = 5;
+const STEP_HOURS = 3;
+
+const VARIABLES = [
+    'temperature_2m', 'apparent_temperature', 'relative_humidity_2m', 'pressure_msl', 'cloud_cover',
+    'wind_speed_10m', 'wind_direction_10m', 'weather_code', 'rain', 'snowfall'
+];
+// The archive has no visibility or precipitation probability
+const FORECAST_VARIABLES = [...VARIABLES, 'visibility', 'precipitation_probability'];
+
+interface Condition {
+    code: number;
+    condition: string;
+    description: string;
+}
+
+const WMO_CONDITIONS: Record<number, Condition> = {
+    0: { code: 800, condition: 'Clear', description: 'clear sky' },
+    1: { code: 801, condition: 'Clouds', description: 'few clouds' },
+    2: { code: 802, condition: 'Clouds', description: 'scattered clouds' },
+    3: { code: 804, condition: 'Clouds', description: 'overcast clouds' },
+    45: { code: 741, condition: 'Fog', description: 'fog' },
+    48: { code: 741, condition: 'Fog', description: 'depositing rime fog' },
+    51: { code: 300, condition: 'Drizzle', description: 'light drizzle' },
+    53: { code: 301, condition: 'Drizzle', description: 'drizzle' },
+    55: { code: 302, condition: 'Drizzle', description: 'heavy drizzle' },
+    56: { code: 511, condition: 'Rain', description: 'freezing drizzle' },
+    57: { code: 511, condition: 'Rain', description: 'freezing drizzle' },
+    61: { code: 500, condition: 'Rain', description: 'light rain' },
+    63: { code: 501, condition: 'Rain', description: 'moderate rain' },
+    65: { code: 502, condition: 'Rain', description: 'heavy intensity rain' },
+    66: { code: 511, condition: 'Rain', description: 'freezing rain' },
+    67: { code: 511, condition: 'Rain', description: 'freezing rain' },
+    71: { code: 600, condition: 'Snow', description: 'light snow' },
+    73: { code: 601, condition: 'Snow', description: 'snow' },
+    75: { code: 602, condition: 'Snow', description: 'heavy snow' },
+    77: { code: 600, condition: 'Snow', description: 'snow grains' },
+    80: { code: 520, condition: 'Rain', description: 'light intensity shower rain' },
+    81: { code: 521, condition: 'Rain', description: 'shower rain' },
+    82: { code: 522, condition: 'Rain', description: 'heavy intensity shower rain' },
+    85: { code: 620, condition: 'Snow', description: 'light shower snow' },
+    86: { code: 621, condition: 'Snow', description: 'shower snow' },
+    95: { code: 211, condition: 'Thunderstorm', description: 'thunderstorm' },
+    96: { code: 201, condition: 'Thunderstorm', description: 'thunderstorm with hail' },
+    99: { code: 202, condition: 'Thunderstorm', description: 'thunderstorm with heavy hail' }
+};
+
+function toCondition(wmoCode: number): Condition {
+    return WMO_CONDITIONS[wmoCode] || { code: 800, condition: 'Clear', description: 'clear sky' };
+}
+
+function toCandidate(result: any): GeocodeCandidate {
+    return {
+        name: result.name,
+        state: result.admin1 || null,
+        country: result.country_code,
+        lat: result.latitude,
+        lon: result.longitude
+    };
+}
+
+/**
+ * Total of the values that are present, rounded to 0.01 against floating point noise
+ */
+function sum(values: Array<number | null | undefined>, scale: number = 1): number | null {
+    const present = values.filter((value): value is number => typeof value === 'number');
+    return present.length > 0 ? Math.round(present.reduce((total, value) => total + value, 0) * scale * 100) / 100 : null;
+}
+
+/**
+ * One observation from hourly (or current) values at an index. Precipitation is summed over `hours`.
+ */
+function toObservation(values: Record<string, any[]>, index: number, hours: number): WeatherObservation {
+    const at = (variable: string) => values[variable]?.[index] ?? null;
+    const over = (variable: string) => (values[variable] || []).slice(index, index + hours);
+    const condition = toCondition(at('weather_code'));
+    const probabilities = over('precipitation_probability').filter(value => typeof value === 'number');
+
+    return {
+        observedAt: new Date(values.time[index] * 1000).toISOString(),
+        temperature: toSi(at('temperature_2m'), 'Cel'),
+        feelsLike: toSi(at('apparent_temperature'), 'Cel'),
+        tempMin: null,
+        tempMax: null,
+        humidity: at('relative_humidity_2m'),
+        pressure: toSi(at('pressure_msl'), 'hPa'),
+        visibility: at('visibility'),
+        windSpeed: at('wind_speed_10m'),
+        windDirection: at('wind_direction_10m'),
+        clouds: at('cloud_cover'),
+        conditionCode: condition.code,
+        condition: condition.condition,
+        description: condition.description,
+        rain: sum(over('rain')),
+        // Open-Meteo reports snowfall in cm
+        snow: sum(over('snowfall'), 10),
+        precipitationProbability: probabilities.length > 0 ? Math.max(...probabilities) / 100 : null,
+        place: null,
+        icon: null
+    };
+}
+
+/**
+ * A single set of current values as hourly arrays of length 1
+ */
+function asHourly(current: Record<string, any>): Record<string, any[]> {
+    return Object.fromEntries(Object.entries(current).map(([variable, value]) => [variable, [value]]));
+}
+
+export class OpenMeteoProvider implements WeatherProvider {
+    readonly name = 'open-meteo';
+    readonly label = 'Open-Meteo';
+    readonly configured = true;
+
+    constructor(private readonly upstream: Upstream) {}
+
+    async searchCity(query: string): Promise<GeocodeResult> {
+        // Open-Meteo searches names only; "Springfield,Illinois,US" narrows its results by region name and country code instead
+        const [name, ...qualifiers] = query.split(',').map(part => part.trim()).filter(Boolean);
+        if (!name) {
+            return { status: 'not_found' };
+        }
+
+        const candidates = (await this.search({ name, count: CANDIDATE_LIMIT })).filter(candidate =>
+            qualifiers.every(qualifier => [candidate.state, candidate.country]
+                .some(value => value?.toLowerCase() === qualifier.toLowerCase()))
+        );
+        return toGeocodeResult(candidates);
+    }
+
+    async lookupZip(zip: string, country?: string): Promise<GeocodeCandidate | null> {
+        const candidates = await this.search({ name: zip, count: 1, ...(country ? { countryCode: country } : {}) });
+        return candidates[0] || null;
+    }
+
+    /**
+     * Open-Meteo has no reverse geocoding, so the place is named after its coordinates
+     */
+    async reverseGeocode(lat: number, lon: number): Promise<GeocodeCandidate | null> {
+        return { name: `${lat.toFixed(4)}, ${lon.toFixed(4)}`, state: null, country: '', lat, lon };
+    }
+
+    async current(location: WeatherLocation): Promise<WeatherObservation> {
+        const { coordinates, place } = await this.resolve(location);
+        const response = await this.upstream.request({
+            url: FORECAST_URL,
+            params: { ...coordinates, current: FORECAST_VARIABLES.join(','), wind_speed_unit: 'ms', timeformat: 'unixtime' }
+        });
+
+        // Observed at the start of the model's 15-minute interval, so a cached response keeps its time
+        return { ...toObservation(asHourly(response.data.current), 0, 1), place };
+    }
+
+    async forecast(location: WeatherLocation): Promise<WeatherObservation[]> {
+        const { coordinates } = await this.resolve(location);
+        const response = await this.upstream.request({
+            url: FORECAST_URL,
+            params: {
+                ...coordinates,
+                hourly: FORECAST_VARIABLES.join(','),
+                forecast_days: FORECAST_DAYS + 1,
+                wind_speed_unit: 'ms',
+                timeformat: 'unixtime'
+            }
+        });
+
+        // Hourly values from the next 3-hour boundary on, taken every third hour like OpenWeather's steps
+        const hourly = response.data.hourly;
+        const steps: WeatherObservation[] = [];
+        const now = Date.now() / 1000;
+        for (let index = 0; index < hourly.time.length && steps.length < FORECAST_DAYS * 24 / STEP_HOURS; index++) {
+            const time = hourly.time[index];
+            if (time >= now && time % (STEP_HOURS * 3600) === 0) {
+                steps.push(toObservation(hourly, index, STEP_HOURS));
+            }
+        }
+        return steps;
+    }
+
+    async historical(location: WeatherLocation, start: Date, end: Date): Promise<WeatherObservation[]> {
+        const { coordinates } = await this.resolve(location);
+        const response = await this.upstream.request({
+            url: ARCHIVE_URL,
+            params: {
+                ...coordinates,
+                start_date: start.toISOString().slice(0, 10),
+                end_date: end.toISOString().slice(0, 10),
+                hourly: VARIABLES.join(','),
+                wind_speed_unit: 'ms',
+                timeformat: 'unixtime'
+            }
+        });
+
+        const hourly = response.data.hourly;
+        const observations: WeatherObservation[] = [];
+        for (let index = 0; index < hourly.time.length; index++) {
+            const time = hourly.time[index] * 1000;
+            // Hours the archive doesn't have yet come back as nulls
+            if (time >= start.getTime() && time < end.getTime() && hourly.temperature_2m[index] !== null) {
+                observations.push(toObservation(hourly, index, 1));
+            }
+        }
+        return observations;
+    }
+
+    private async search(params: Record<string, unknown>): Promise<GeocodeCandidate[]> {
+        const response = await this.upstream.request({
+            url: GEOCODING_URL,
+            params: { ...params, language: 'en', format: 'json' }
+        });
+        return (response.data.results || []).map(toCandidate);
+    }
+
+    /**
+     * Coordinates for a location, geocoding city queries (the first match wins)
+     */
+    private async resolve(location: WeatherLocation) {
+        if (!('city' in location)) {
+            return { coordinates: { latitude: location.lat, longitude: location.lon }, place: null };
+        }
+
+        const result = await this.searchCity(location.city);
+        if (result.status === 'not_found') {
+            throw new LocationNotFoundError(location.city);
+        }
+        const found = result.status === 'found' ? result.place : result.candidates[0];
+        return {
+            coordinates: { latitude: found.lat, longitude: found.lon },
+            place: { name: found.name, country: found.country }
+        };
+    }
+}
@@ -0,0 +1,136 @@
+import { GeocodeCandidate, GeocodeResult, Geocoder } from '../geocoder';
+import { Upstream } from '../resilience';
+import { toSi } from '../units';
+import { LocationNotFoundError, ProviderNotConfiguredError } from './errors';
+import { WeatherLocation, WeatherObservation, WeatherProvider } from './types';
+
+const DATA_URL = 'https://api.openweathermap.org/data/2.5';
+// History is a separate host and needs a paid plan
+const HISTORY_URL = 'https://history.openweathermap.org/data/2.5/history/city';
+
+// Most history OpenWeather returns per call
+const HISTORY_CHUNK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function locationParams(location: WeatherLocation) {
+    return 'city' in location ? { q: location.city } : { lat: location.lat, lon: location.lon };
+}
+
+const celsius = (value: number | undefined) => typeof value === 'number' ? toSi(value, 'Cel') : null;
+
+/**
+ * Map an item of a current weather, forecast or history response. They share the same shape;
+ * only the precipitation period (1h or 3h) differs. Values are requested in metric units.
+ */
+function toObservation(item: any, observedAt: string, precipitationPeriod: '1h' | '3h'): WeatherObservation {
+    return {
+        observedAt,
+        temperature: toSi(item.main.temp, 'Cel'),
+        feelsLike: toSi(item.main.feels_like, 'Cel'),
+        tempMin: celsius(item.main.temp_min),
+        tempMax: celsius(item.main.temp_max),
+        humidity: item.main.humidity,
+        pressure: toSi(item.main.pressure, 'hPa'),
+        visibility: item.visibility ?? null,
+        windSpeed: item.wind.speed,
+        windDirection: item.wind.deg ?? null,
+        clouds: item.clouds.all,
+        conditionCode: item.weather[0].id,
+        condition: item.weather[0].main,
+        description: item.weather[0].description,
+        rain: item.rain?.[precipitationPeriod] ?? null,
+        snow: item.snow?.[precipitationPeriod] ?? null,
+        precipitationProbability: item.pop ?? null,
+        place: null,
+        icon: item.weather[0].icon ?? null
+    };
+}
+
+export class OpenWeatherProvider implements WeatherProvider {
+    readonly name = 'openweather';
+    readonly label = 'OpenWeather';
+    private readonly geocoder: Geocoder;
+
+    constructor(private readonly upstream: Upstream, private readonly apiKey: string) {
+        this.geocoder = new Geocoder(upstream, apiKey);
+    }
+
+    get configured(): boolean {
+        return !!this.apiKey;
+    }
+
+    async searchCity(query: string): Promise<GeocodeResult> {
+        this.assertConfigured();
+        return this.geocoder.searchCity(query);
+    }
+
+    async lookupZip(zip: string, country?: string): Promise<GeocodeCandidate | null> {
+        this.assertConfigured();
+        return this.geocoder.lookupZip(zip, country);
+    }
+
+    async reverseGeocode(lat: number, lon: number): Promise<GeocodeCandidate | null> {
+        this.assertConfigured();
+        return this.geocoder.reverse(lat, lon);
+    }
+
+    async current(location: WeatherLocation): Promise<WeatherObservation> {
+        const data = await this.get(`${DATA_URL}/weather`, location);
+
+        // dt is when OpenWeather last updated the reading, so a cached or unchanged response keeps its time
+        return {
+            ...toObservation(data, new Date(data.dt * 1000).toISOString(), '1h'),
+            place: { name: data.name, country: data.sys.country }
+        };
+    }
+
+    async forecast(location: WeatherLocation): Promise<WeatherObservation[]> {
+        const data = await this.get(`${DATA_URL}/forecast`, location);
+        return (data.list || []).map((item: any) => toObservation(item, new Date(item.dt * 1000).toISOString(), '3h'));
+    }
+
+    async historical(location: WeatherLocation, start: Date, end: Date): Promise<WeatherObservation[]> {
+        const observations: WeatherObservation[] = [];
+
+        for (let from = start.getTime(); from < end.getTime(); from += HISTORY_CHUNK_MS) {
+            const to = Math.min(from + HISTORY_CHUNK_MS, end.getTime());
+            const data = await this.get(HISTORY_URL, location, {
+                type: 'hour',
+                start: Math.floor(from / 1000),
+                end: Math.floor(to / 1000)
+            });
+
+            for (const item of data.list || []) {
+                const observedAt = item.dt * 1000;
+                if (observedAt >= from && observedAt < to) {
+                    observations.push(toObservation(item, new Date(observedAt).toISOString(), '1h'));
+                }
+            }
+        }
+
+        return observations;
+    }
+
+    private async get(url: string, location: WeatherLocation, params: Record<string, unknown> = {}): Promise<any> {
+        this.assertConfigured();
+
+        try {
+            const response = await this.upstream.request({
+                url,
+                params: { ...locationParams(location), ...params, appid: this.apiKey, units: 'metric' }
+            });
+            return response.data;
+        } catch (error: any) {
+            // Unknown cities come back as 404
+            if ('city' in location && error.response?.status === 404) {
+                throw new LocationNotFoundError(location.city);
+            }
+            throw error;
+        }
+    }
+
+    private assertConfigured() {
+        if (!this.configured) {
+            throw new ProviderNotConfiguredError(this.label);
+        }
+    }
+}
@@ -0,0 +1,82 @@
+import { GeocodeCandidate, GeocodeResult } from '../geocoder';
+
+export type ProviderName = 'openweather' | 'open-meteo' | 'mock';
+
+/**
+ * Where to get weather for: coordinates, or a city query for stations created before
+ * coordinates were stored
+ */
+export type WeatherLocation = { lat: number; lon: number } | { city: string };
+
+/**
+ * An observation or forecast step, in SI units whatever the provider (see units.ts):
+ * K, %, Pa, metres, m/s, degrees and mm
+ */
+export interface WeatherObservation {
+    // When the reading was taken; for forecast steps, the start of the period they forecast
+    observedAt: string;
+    temperature: number;
+    feelsLike: number;
+    // Range across the area right now, only reported by OpenWeather
+    tempMin: number | null;
+    tempMax: number | null;
+    humidity: number;
+    pressure: number;
+    visibility: number | null;
+    windSpeed: number;
+    windDirection: number | null;
+    clouds: number;
+    // OpenWeather condition code (https://openweathermap.org/weather-conditions); other providers' codes are mapped onto it
+    conditionCode: number;
+    // Weather group, e.g. Rain, and the condition within it
+    condition: string;
+    description: string;
+    // Precipitation over the last hour for observations, over the step for forecasts
+    rain: number | null;
+    snow: number | null;
+    // Forecast steps only, 0-1
+    precipitationProbability: number | null;
+    // The place the provider reports the weather for
+    place: { name: string; country: string } | null;
+    // OpenWeather icon code, e.g. 10d
+    icon: string | null;
+}
+
+/**
+ * A source of weather data. Each provider geocodes with its own place data, so a station's
+ * coordinates come from the provider it was created with.
+ */
+export interface WeatherProvider {
+    readonly name: ProviderName;
+    // For messages, e.g. "OpenWeather"
+    readonly label: string;
+    // False when the provider needs an API key that isn't set
+    readonly configured: boolean;
+
+    /**
+     * Resolve a city query such as "Paris", "Paris,FR" or "Springfield,IL,US"
+     */
+    searchCity(query: string): Promise<GeocodeResult>;
+
+    /**
+     * Resolve a postal code, optionally within a country (ISO 3166 code). Null when unknown.
+     */
+    lookupZip(zip: string, country?: string): Promise<GeocodeCandidate | null>;
+
+    /**
+     * The place at a set of coordinates, or null when there is none
+     */
+    reverseGeocode(lat: number, lon: number): Promise<GeocodeCandidate | null>;
+
+    current(location: WeatherLocation): Promise<WeatherObservation>;
+
+    /**
+     * The next 5 days in 3-hour steps, oldest first
+     */
+    forecast(location: WeatherLocation): Promise<WeatherObservation[]>;
+
+    /**
+     * Hourly observations within [start, end), oldest first
+     */
+    historical(location: WeatherLocation, start: Date, end: Date): Promise<WeatherObservation[]>;
+}
@@ -0,0 +1,236 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * Timeouts, retries and circuit breaking for calls to an upstream service (Legion, OpenWeather).
+ * Transient failures are retried with exponential backoff and full jitter; an upstream that keeps
+ * failing is short-circuited for a while so requests fail fast instead of piling up.
+ */
+export interface ResilienceOptions {
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    // Also the longest Retry-After we are willing to wait for
+    maxDelayMs: number;
+    // Consecutive failures before the circuit opens
+    failureThreshold: number;
+    // How long the circuit stays open before a trial request is let through
+    resetTimeoutMs: number;
+}
+
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+    timeoutMs: 10000,
+    maxRetries: 3,
+    baseDelayMs: 250,
+    maxDelayMs: 10000,
+    failureThreshold: 5,
+    resetTimeoutMs: 30000
+};
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitSnapshot {
+    upstream: string;
+    state: CircuitState;
+    consecutiveFailures: number;
+    openedAt: Date | null;
+    retryAt: Date | null;
+    lastError: string | null;
+}
+
+/**
+ * Thrown without calling the upstream while its circuit is open
+ */
+export class CircuitOpenError extends Error {
+    readonly code = 'CIRCUIT_OPEN';
+
+    constructor(public readonly upstream: string, public readonly retryAt: Date) {
+        super(`${upstream} is unavailable (circuit open until ${retryAt.toISOString()})`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+// Methods that are safe to send twice. Other requests can opt in with `idempotent`.
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Statuses worth another attempt; anything else is the caller's problem
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retry-After is either a number of seconds or an HTTP date
+ */
+function parseRetryAfter(header: unknown): number | null {
+    if (typeof header !== 'string' || header === '') {
+        return null;
+    }
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(header);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether the upstream itself is in trouble, as opposed to rejecting a bad request
+ */
+function isUpstreamFailure(error: any): boolean {
+    const status = error.response?.status;
+    return !status || status >= 500;
+}
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openedAt: number | null = null;
+    private trialInFlight = false;
+    private lastError: string | null = null;
+
+    constructor(
+        private readonly upstream: string,
+        private readonly failureThreshold: number,
+        private readonly resetTimeoutMs: number
+    ) {}
+
+    /**
+     * Throws CircuitOpenError when the call should not go out
+     */
+    beforeRequest() {
+        if (this.state === 'open') {
+            const retryAt = this.openedAt! + this.resetTimeoutMs;
+            if (Date.now() < retryAt) {
+                throw new CircuitOpenError(this.upstream, new Date(retryAt));
+            }
+            this.state = 'half_open';
+        }
+
+        if (this.state === 'half_open') {
+            // Only one trial request at a time while we find out if the upstream is back
+            if (this.trialInFlight) {
+                throw new CircuitOpenError(this.upstream, new Date(Date.now() + this.resetTimeoutMs));
+            }
+            this.trialInFlight = true;
+        }
+    }
+
+    recordSuccess() {
+        if (this.state !== 'closed') {
+            console.log(`✅ ${this.upstream} recovered, closing circuit`);
+        }
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+    }
+
+    recordFailure(error: any) {
+        this.consecutiveFailures++;
+        this.lastError = error.response?.status ? `HTTP ${error.response.status}` : error.code || error.message;
+        this.trialInFlight = false;
+
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.failureThreshold) {
+            if (this.state !== 'open') {
+                console.warn(`⚠️  ${this.upstream} failing (${this.lastError}), opening circuit for ${this.resetTimeoutMs}ms`);
+            }
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+
+    snapshot(): CircuitSnapshot {
+        return {
+            upstream: this.upstream,
+            state: this.state,
+            consecutiveFailures: this.consecutiveFailures,
+            openedAt: this.openedAt ? new Date(this.openedAt) : null,
+            retryAt: this.openedAt ? new Date(this.openedAt + this.resetTimeoutMs) : null,
+            lastError: this.lastError
+        };
+    }
+}
+
+export interface UpstreamRequestOptions {
+    // Retry a request whose method isn't idempotent by itself, e.g. a search sent as POST
+    idempotent?: boolean;
+}
+
+/**
+ * A remote service we call, with its own timeout, retry policy and circuit breaker
+ */
+export class Upstream {
+    readonly breaker: CircuitBreaker;
+
+    constructor(readonly name: string, private readonly options: ResilienceOptions = DEFAULT_RESILIENCE_OPTIONS) {
+        this.breaker = new CircuitBreaker(name, options.failureThreshold, options.resetTimeoutMs);
+    }
+
+    /**
+     * Send a request. Failures are rethrown as the original axios error once retries run out.
+     */
+    async request<T = any>(requestConfig: AxiosRequestConfig, requestOptions: UpstreamRequestOptions = {}): Promise<AxiosResponse<T>> {
+        const method = (requestConfig.method || 'GET').toUpperCase();
+        const idempotent = requestOptions.idempotent ?? IDEMPOTENT_METHODS.includes(method);
+
+        for (let attempt = 0; ; attempt++) {
+            this.breaker.beforeRequest();
+
+            try {
+                const response = await this.send<T>(requestConfig);
+                this.breaker.recordSuccess();
+                return response;
+            } catch (error: any) {
+                if (isUpstreamFailure(error)) {
+                    this.breaker.recordFailure(error);
+                } else {
+                    this.breaker.recordSuccess();
+                }
+
+                const delayMs = this.retryDelay(error, attempt, idempotent);
+                if (delayMs === null) {
+                    throw error;
+                }
+
+                console.log(`${this.name} ${method} ${requestConfig.url} failed (${error.response?.status || error.code}), retrying in ${delayMs}ms...`);
+                await sleep(delayMs);
+            }
+        }
+    }
+
+    /**
+     * One attempt at the request
+     */
+    protected send<T>(requestConfig: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+        return axios.request<T>({
+            timeout: this.options.timeoutMs,
+            ...requestConfig
+        });
+    }
+
+    /**
+     * How long to wait before the next attempt, or null to give up
+     */
+    private retryDelay(error: any, attempt: number, idempotent: boolean): number | null {
+        if (attempt >= this.options.maxRetries) {
+            return null;
+        }
+
+        const status: number | undefined = error.response?.status;
+
+        // A 429 means the request was not processed, so it is safe to resend whatever the method
+        if (status === 429) {
+            const retryAfterMs = parseRetryAfter(error.response.headers?.['retry-after']);
+            if (retryAfterMs !== null) {
+                return retryAfterMs <= this.options.maxDelayMs ? retryAfterMs : null;
+            }
+        } else if (!idempotent || (status !== undefined && !RETRYABLE_STATUSES.includes(status))) {
+            return null;
+        }
+
+        // Exponential backoff with full jitter
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+        return Math.round(Math.random() * ceiling);
+    }
+}
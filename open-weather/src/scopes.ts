@@ -0,0 +1,43 @@
+/**
+ * Legion scopes the integration requests in manifest.json
+ */
+export const SCOPES = {
+    ORGANIZATIONS_READ: 'organizations:read',
+    ENTITIES_READ: 'entities:read',
+    ENTITIES_WRITE: 'entities:write',
+    FEEDS_READ: 'feeds:read',
+    FEEDS_WRITE: 'feeds:write'
+} as const;
+
+// Scopes are in format: {org_id}:::{scope_name}
+const ORG_SCOPE_SEPARATOR = ':::';
+
+/**
+ * Parse a space separated scope string into the scope names granted for an organization.
+ * Scopes prefixed with another organization's ID are dropped; unprefixed scopes are kept as-is.
+ */
+export function parseGrantedScopes(scope: string | undefined, orgId?: string): string[] {
+    if (!scope) {
+        return [];
+    }
+
+    const names = new Set<string>();
+    for (const entry of scope.split(' ').filter(Boolean)) {
+        const separatorIndex = entry.indexOf(ORG_SCOPE_SEPARATOR);
+        if (separatorIndex === -1) {
+            names.add(entry);
+            continue;
+        }
+
+        const scopeOrgId = entry.substring(0, separatorIndex);
+        if (!orgId || scopeOrgId === orgId) {
+            names.add(entry.substring(separatorIndex + ORG_SCOPE_SEPARATOR.length));
+        }
+    }
+
+    return Array.from(names);
+}
+
+export function missingScopes(granted: string[], required: string[]): string[] {
+    return required.filter(scope => !granted.includes(scope));
+}
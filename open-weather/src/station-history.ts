@@ -0,0 +1,165 @@
+import { FeedMessage } from './legion-client';
+import { ObjectSchema } from './feed-schemas';
+import { convertFields } from './units';
+
+/**
+ * Shapes feed messages read back from Legion for the station history route: flat readings,
+ * downsampled buckets (min/max/avg of every numeric field) and CSV.
+ */
+export interface Reading {
+    recorded_at: string;
+    [field: string]: unknown;
+}
+
+export interface FieldStats {
+    min: number;
+    max: number;
+    avg: number;
+}
+
+export interface ReadingBucket {
+    bucket_start: string;
+    bucket_end: string;
+    count: number;
+    fields: Record<string, FieldStats>;
+}
+
+const BUCKET_UNITS_MS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a bucket size like `30s`, `15m`, `1h` or `1d` (a bare number is seconds) into milliseconds
+ */
+export function parseBucketSize(value: string): number | null {
+    const match = /^(\d+)([smhd]?)$/.exec(value.trim());
+    if (!match) {
+        return null;
+    }
+
+    const size = parseInt(match[1], 10) * BUCKET_UNITS_MS[match[2] || 's'];
+    return size > 0 ? size : null;
+}
+
+/**
+ * The fields of a schema that can be aggregated
+ */
+export function numericFields(schema: ObjectSchema): string[] {
+    return Object.entries(schema.properties)
+        .filter(([, property]) => property.type === 'number' || property.type === 'integer')
+        .map(([name]) => name);
+}
+
+/**
+ * Flatten messages into readings within [start, end), oldest first
+ */
+export function toReadings(messages: FeedMessage[], start: Date, end: Date): Reading[] {
+    return messages
+        .filter(message => {
+            const recordedAt = Date.parse(message.recorded_at);
+            return recordedAt >= start.getTime() && recordedAt < end.getTime();
+        })
+        .sort((a, b) => Date.parse(a.recorded_at) - Date.parse(b.recorded_at))
+        .map(message => ({ ...message.payload, recorded_at: message.recorded_at }));
+}
+
+/**
+ * Readings with their numeric fields in the given units, each converted from the units its payload
+ * lists. Fields a payload doesn't list are taken to be in `defaultUnits`.
+ */
+export function convertReadings(readings: Reading[], defaultUnits: Record<string, string>, units: Record<string, string>): Reading[] {
+    return readings.map(({ units: readingUnits, ...reading }) =>
+        convertFields(reading, { ...defaultUnits, ...(readingUnits as Record<string, string> | undefined) }, units));
+}
+
+function round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Group readings into fixed buckets aligned to the epoch. Buckets without readings are left out.
+ */
+export function downsample(readings: Reading[], bucketMs: number, fields: string[]): ReadingBucket[] {
+    const buckets = new Map<number, { count: number; stats: Record<string, { min: number; max: number; sum: number; count: number }> }>();
+
+    for (const reading of readings) {
+        const bucketStart = Math.floor(Date.parse(reading.recorded_at) / bucketMs) * bucketMs;
+        let bucket = buckets.get(bucketStart);
+        if (!bucket) {
+            bucket = { count: 0, stats: {} };
+            buckets.set(bucketStart, bucket);
+        }
+        bucket.count++;
+
+        for (const field of fields) {
+            const value = reading[field];
+            if (typeof value !== 'number' || !isFinite(value)) {
+                continue;
+            }
+
+            const stats = bucket.stats[field];
+            if (stats) {
+                stats.min = Math.min(stats.min, value);
+                stats.max = Math.max(stats.max, value);
+                stats.sum += value;
+                stats.count++;
+            } else {
+                bucket.stats[field] = { min: value, max: value, sum: value, count: 1 };
+            }
+        }
+    }
+
+    return Array.from(buckets.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([bucketStart, bucket]) => {
+            const fieldStats: Record<string, FieldStats> = {};
+            for (const [field, stats] of Object.entries(bucket.stats)) {
+                fieldStats[field] = { min: stats.min, max: stats.max, avg: round(stats.sum / stats.count) };
+            }
+
+            return {
+                bucket_start: new Date(bucketStart).toISOString(),
+                bucket_end: new Date(bucketStart + bucketMs).toISOString(),
+                count: bucket.count,
+                fields: fieldStats
+            };
+        });
+}
+
+function csvValue(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: unknown[][]): string {
+    return [header, ...rows].map(row => row.map(csvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+export function readingsToCsv(readings: Reading[], fields: string[]): string {
+    const columns = ['recorded_at', ...fields.filter(field => field !== 'recorded_at')];
+    return toCsv(columns, readings.map(reading => columns.map(column => reading[column])));
+}
+
+export function bucketsToCsv(buckets: ReadingBucket[], fields: string[]): string {
+    const header = ['bucket_start', 'bucket_end', 'count'];
+    for (const field of fields) {
+        header.push(`${field}_min`, `${field}_max`, `${field}_avg`);
+    }
+
+    return toCsv(header, buckets.map(bucket => [
+        bucket.bucket_start,
+        bucket.bucket_end,
+        bucket.count,
+        ...fields.flatMap(field => {
+            const stats = bucket.fields[field];
+            return stats ? [stats.min, stats.max, stats.avg] : [null, null, null];
+        })
+    ]));
+}
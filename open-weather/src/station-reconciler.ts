@@ -0,0 +1,194 @@
+import { Entity } from './legion-client';
+import { Collection, OrgRecord } from './store';
+
+/**
+ * Keeps the local weather station cache in line with Legion. Stations created in the Legion UI are
+ * adopted, stations deleted there are dropped, and changed ones are refreshed. Stations we can't
+ * serve properly are reported as conflicts rather than silently skipped.
+ */
+export type StationConflictType = 'missing_location' | 'duplicate_location';
+
+export interface StationConflict {
+    stationId: string;
+    type: StationConflictType;
+    detail: string;
+}
+
+export interface ReconcileReport {
+    orgId: string;
+    reconciledAt: Date;
+    total: number;
+    adopted: string[];
+    dropped: string[];
+    updated: string[];
+    conflicts: StationConflict[];
+}
+
+export interface StationReconcilerOptions {
+    intervalMs: number;
+}
+
+/**
+ * Fetches every weather station entity an organization has in Legion
+ */
+export type StationSearch = (orgId: string) => Promise<Entity[]>;
+
+function hasLocation(station: Entity): boolean {
+    const { lat, lon } = station.metadata || {};
+    return typeof lat === 'number' && typeof lon === 'number';
+}
+
+// Stations closer than ~100 m report the same weather
+function locationKey(station: Entity): string {
+    return `${station.metadata.lat.toFixed(3)},${station.metadata.lon.toFixed(3)}`;
+}
+
+function findConflicts(stations: Entity[]): StationConflict[] {
+    const conflicts: StationConflict[] = [];
+    const byLocation = new Map<string, Entity>();
+
+    for (const station of stations) {
+        if (!hasLocation(station) && !station.metadata?.city) {
+            conflicts.push({
+                stationId: station.id,
+                type: 'missing_location',
+                detail: 'Station has neither coordinates nor a city in its metadata, so it cannot be polled'
+            });
+            continue;
+        }
+
+        if (!hasLocation(station)) {
+            continue;
+        }
+
+        const key = locationKey(station);
+        const existing = byLocation.get(key);
+        if (existing) {
+            conflicts.push({
+                stationId: station.id,
+                type: 'duplicate_location',
+                detail: `Same location (${key}) as station ${existing.id}`
+            });
+        } else {
+            byLocation.set(key, station);
+        }
+    }
+
+    return conflicts;
+}
+
+function hasChanged(local: Entity, remote: Entity): boolean {
+    if (local.updated_at && remote.updated_at) {
+        return local.updated_at !== remote.updated_at;
+    }
+    return JSON.stringify(local) !== JSON.stringify(remote);
+}
+
+export class StationReconciler {
+    private readonly lastReports = new Map<string, ReconcileReport>();
+    // One reconciliation per organization at a time; callers share the one in flight
+    private readonly inFlight = new Map<string, Promise<ReconcileReport>>();
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly organizations: Collection<OrgRecord>,
+        private readonly stations: Collection<Entity[]>,
+        private readonly search: StationSearch,
+        private readonly canReconcile: (org: OrgRecord) => boolean,
+        private readonly options: StationReconcilerOptions
+    ) {}
+
+    start() {
+        if (this.timer) {
+            return;
+        }
+        this.timer = setInterval(() => {
+            this.reconcileAll().catch(error => console.error('Station reconciliation failed:', error));
+        }, this.options.intervalMs);
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Diff the cached stations against Legion and store Legion's view
+     */
+    reconcile(orgId: string): Promise<ReconcileReport> {
+        const pending = this.inFlight.get(orgId);
+        if (pending) {
+            return pending;
+        }
+
+        const reconciliation = this.performReconcile(orgId).finally(() => {
+            this.inFlight.delete(orgId);
+        });
+        this.inFlight.set(orgId, reconciliation);
+
+        return reconciliation;
+    }
+
+    async reconcileAll(): Promise<void> {
+        for (const [orgId, org] of await this.organizations.entries()) {
+            if (!this.canReconcile(org)) {
+                continue;
+            }
+
+            try {
+                await this.reconcile(orgId);
+            } catch (error: any) {
+                console.error(`Failed to reconcile weather stations for org ${orgId}:`, error.message);
+            }
+        }
+    }
+
+    lastReport(orgId: string): ReconcileReport | null {
+        return this.lastReports.get(orgId) || null;
+    }
+
+    forget(orgId: string) {
+        this.lastReports.delete(orgId);
+    }
+
+    private async performReconcile(orgId: string): Promise<ReconcileReport> {
+        const local = (await this.stations.get(orgId)) || [];
+        const remote = await this.search(orgId);
+
+        const localById = new Map(local.map(station => [station.id, station]));
+        const remoteIds = new Set(remote.map(station => station.id));
+
+        const report: ReconcileReport = {
+            orgId,
+            reconciledAt: new Date(),
+            total: remote.length,
+            adopted: [],
+            dropped: local.filter(station => !remoteIds.has(station.id)).map(station => station.id),
+            updated: [],
+            conflicts: findConflicts(remote)
+        };
+
+        for (const station of remote) {
+            const cached = localById.get(station.id);
+            if (!cached) {
+                report.adopted.push(station.id);
+            } else if (hasChanged(cached, station)) {
+                report.updated.push(station.id);
+            }
+        }
+
+        // Legion is the source of truth for which stations exist and what they look like
+        await this.stations.set(orgId, remote);
+        this.lastReports.set(orgId, report);
+
+        if (report.adopted.length || report.dropped.length || report.updated.length || report.conflicts.length) {
+            console.log(`Reconciled weather stations for org ${orgId}: ` +
+                `${report.adopted.length} adopted, ${report.dropped.length} dropped, ` +
+                `${report.updated.length} updated, ${report.conflicts.length} conflicts`);
+        }
+
+        return report;
+    }
+}
@@ -0,0 +1,281 @@
+import { Entity } from './legion-client';
+import { PublishResult } from './feed-queue';
+import { Collection, OrgRecord, StationSchedule } from './store';
+
+/**
+ * Polls every weather station on its own interval, so readings reach Legion without anyone
+ * clicking "Update Weather". Schedules live in the store and survive restarts; polls that fell
+ * due while the server was down run on the next tick. Intervals are jittered so stations created
+ * together don't stay in lockstep, and at most `concurrency` polls run at once across all orgs.
+ */
+export interface StationSchedulerOptions {
+    enabled: boolean;
+    defaultIntervalMs: number;
+    // Each interval is stretched or shrunk by up to this fraction at random
+    jitterRatio: number;
+    concurrency: number;
+    tickMs: number;
+}
+
+/**
+ * Fetches one reading for a station and publishes it. Resolves to null when the reading was already
+ * published, and throws when it couldn't be taken.
+ */
+export type StationPoller = (orgId: string, station: Entity) => Promise<PublishResult | null>;
+
+/**
+ * Why an organization's stations shouldn't be polled right now, or null if they can be
+ */
+export type PauseCheck = (org: OrgRecord) => Promise<string | null>;
+
+/**
+ * Why a station's poll should wait for now (e.g. its provider's quota is nearly used up), or null.
+ * Deferred polls stay due and run on a later tick.
+ */
+export type DeferCheck = (orgId: string, station: Entity) => Promise<string | null>;
+
+export interface ScheduleChanges {
+    enabled?: boolean;
+    // null goes back to the default interval
+    intervalMs?: number | null;
+}
+
+export interface StationPollingState {
+    enabled: boolean;
+    interval_seconds: number;
+    next_run_at: string | null;
+    last_run_at: string | null;
+    last_status: string | null;
+    last_error: string | null;
+    paused_reason: string | null;
+}
+
+const scheduleKey = (orgId: string, stationId: string) => `${orgId}:${stationId}`;
+
+export class StationScheduler {
+    private readonly running = new Set<string>();
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+
+    constructor(
+        private readonly schedules: Collection<StationSchedule>,
+        private readonly organizations: Collection<OrgRecord>,
+        private readonly stations: Collection<Entity[]>,
+        private readonly poll: StationPoller,
+        private readonly pauseReason: PauseCheck,
+        private readonly deferReason: DeferCheck,
+        private readonly options: StationSchedulerOptions
+    ) {}
+
+    start() {
+        if (this.timer || !this.options.enabled) {
+            return;
+        }
+        this.timer = setInterval(() => this.tick(), this.options.tickMs);
+        this.tick();
+    }
+
+    stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Change a station's schedule, creating it if needed
+     */
+    async configure(orgId: string, stationId: string, changes: ScheduleChanges): Promise<StationSchedule> {
+        const schedule = await this.ensureSchedule(orgId, stationId);
+        const updated: StationSchedule = {
+            ...schedule,
+            enabled: changes.enabled ?? schedule.enabled,
+            intervalMs: changes.intervalMs !== undefined ? changes.intervalMs : schedule.intervalMs
+        };
+
+        // A new interval applies from now rather than after the old one runs out
+        if (changes.intervalMs !== undefined) {
+            updated.nextRunAt = this.nextRunAfter(Date.now(), updated);
+        }
+
+        await this.schedules.set(scheduleKey(orgId, stationId), updated);
+        return updated;
+    }
+
+    async remove(orgId: string, stationId: string) {
+        await this.schedules.delete(scheduleKey(orgId, stationId));
+    }
+
+    async removeOrganization(orgId: string): Promise<number> {
+        let removed = 0;
+        for (const [key, schedule] of await this.schedules.entries()) {
+            if (schedule.orgId === orgId) {
+                await this.schedules.delete(key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Polling state of each of an organization's stations, for the station list
+     */
+    async pollingState(orgId: string, stations: Entity[]): Promise<Record<string, StationPollingState>> {
+        const org = await this.organizations.get(orgId);
+        const orgPausedReason = !this.options.enabled
+            ? 'polling_disabled'
+            : (org ? await this.pauseReason(org) : 'not_connected');
+
+        const states: Record<string, StationPollingState> = {};
+        for (const station of stations) {
+            const schedule = await this.schedules.get(scheduleKey(orgId, station.id));
+            const pausedReason = orgPausedReason ||
+                (station.status !== 'active' ? 'station_inactive' : await this.deferReason(orgId, station));
+            const enabled = schedule?.enabled ?? true;
+
+            states[station.id] = {
+                enabled,
+                interval_seconds: this.intervalOf(schedule) / 1000,
+                next_run_at: enabled && !pausedReason ? schedule?.nextRunAt || null : null,
+                last_run_at: schedule?.lastRunAt || null,
+                last_status: schedule?.lastStatus || null,
+                last_error: schedule?.lastError || null,
+                paused_reason: pausedReason
+            };
+        }
+        return states;
+    }
+
+    private async tick() {
+        // A slow store shouldn't make ticks pile up
+        if (this.ticking) {
+            return;
+        }
+        this.ticking = true;
+
+        try {
+            await this.runDuePolls();
+        } catch (error: any) {
+            console.error('Station scheduler tick failed:', error);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    private async runDuePolls() {
+        const now = Date.now();
+
+        for (const [orgId, org] of await this.organizations.entries()) {
+            // Orgs whose tokens are invalid stay paused until they reconnect; their schedules are kept
+            if (await this.pauseReason(org)) {
+                continue;
+            }
+
+            const stations = await this.stations.get(orgId);
+            if (!stations) {
+                continue;
+            }
+
+            await this.syncSchedules(orgId, stations);
+
+            for (const station of stations) {
+                if (this.running.size >= this.options.concurrency) {
+                    return;
+                }
+
+                const key = scheduleKey(orgId, station.id);
+                const schedule = await this.schedules.get(key);
+                if (!schedule || !schedule.enabled || station.status !== 'active' ||
+                    this.running.has(key) || Date.parse(schedule.nextRunAt) > now) {
+                    continue;
+                }
+
+                if (await this.deferReason(orgId, station)) {
+                    continue;
+                }
+
+                this.running.add(key);
+                this.runPoll(schedule, station).finally(() => this.running.delete(key));
+            }
+        }
+    }
+
+    private async runPoll(schedule: StationSchedule, station: Entity) {
+        let lastStatus: string;
+        let lastError: string | null = null;
+
+        try {
+            const result = await this.poll(schedule.orgId, station);
+            lastStatus = result ? result.status : 'unchanged';
+            lastError = result?.error || null;
+        } catch (error: any) {
+            lastStatus = 'failed';
+            lastError = error.message;
+            console.error(`Scheduled poll of station ${station.id} (org ${schedule.orgId}) failed:`, error.message);
+        }
+
+        // The schedule may have been changed or removed while the poll ran
+        const key = scheduleKey(schedule.orgId, schedule.stationId);
+        const current = await this.schedules.get(key);
+        if (!current) {
+            return;
+        }
+
+        const finishedAt = Date.now();
+        await this.schedules.set(key, {
+            ...current,
+            lastRunAt: new Date(finishedAt).toISOString(),
+            lastStatus,
+            lastError,
+            nextRunAt: current.nextRunAt === schedule.nextRunAt ? this.nextRunAfter(finishedAt, current) : current.nextRunAt
+        });
+    }
+
+    /**
+     * Give new stations a schedule and drop the schedules of stations that are gone
+     */
+    private async syncSchedules(orgId: string, stations: Entity[]) {
+        const stationIds = new Set(stations.map(station => station.id));
+
+        for (const station of stations) {
+            await this.ensureSchedule(orgId, station.id);
+        }
+
+        for (const [key, schedule] of await this.schedules.entries()) {
+            if (schedule.orgId === orgId && !stationIds.has(schedule.stationId)) {
+                await this.schedules.delete(key);
+            }
+        }
+    }
+
+    private async ensureSchedule(orgId: string, stationId: string): Promise<StationSchedule> {
+        const key = scheduleKey(orgId, stationId);
+        const existing = await this.schedules.get(key);
+        if (existing) {
+            return existing;
+        }
+
+        // Spread first polls over one interval instead of polling every new station at once
+        const schedule: StationSchedule = {
+            orgId,
+            stationId,
+            enabled: true,
+            intervalMs: null,
+            nextRunAt: new Date(Date.now() + Math.random() * this.options.defaultIntervalMs).toISOString(),
+            lastRunAt: null,
+            lastStatus: null,
+            lastError: null
+        };
+        await this.schedules.set(key, schedule);
+        return schedule;
+    }
+
+    private intervalOf(schedule: StationSchedule | undefined): number {
+        return schedule?.intervalMs ?? this.options.defaultIntervalMs;
+    }
+
+    private nextRunAfter(from: number, schedule: StationSchedule): string {
+        const jitter = (Math.random() * 2 - 1) * this.options.jitterRatio;
+        return new Date(from + this.intervalOf(schedule) * (1 + jitter)).toISOString();
+    }
+}
@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const PREFIX = 'enc:v1';
+
+/**
+ * Encrypts values at rest with AES-256-GCM.
+ * The key is derived from the configured secret, so any sufficiently long random string works.
+ */
+export class TokenCipher {
+    private readonly key: Buffer;
+
+    constructor(secret: string) {
+        this.key = crypto.scryptSync(secret, 'legion-weather-token-store', 32);
+    }
+
+    encrypt(value: unknown): string {
+        const iv = crypto.randomBytes(12);
+        const cipher = crypto.createCipheriv(ALGORITHM, this.key, iv);
+        const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+        const tag = cipher.getAuthTag();
+
+        return [PREFIX, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+    }
+
+    decrypt<T>(value: string): T {
+        const [, , iv, tag, ciphertext] = value.split(':');
+        const decipher = crypto.createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, 'base64'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64'));
+
+        const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+        return JSON.parse(plaintext.toString('utf8'));
+    }
+}
@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TokenCipher } from './encryption';
+import { Entity, FeedDefinition } from '../legion-client';
+import {
+    AlertRule,
+    AlertState,
+    Collection,
+    DeadLetterFeedMessage,
+    IntegrationStore,
+    OAuthStateRecord,
+    OrgRecord,
+    OrgSettings,
+    QueuedFeedMessage,
+    StationForecast,
+    StationSchedule
+} from './types';
+
+const CURRENT_VERSION = 1;
+
+type CollectionName = Exclude<keyof IntegrationStore, 'close'>;
+
+interface StoreDocument {
+    version: number;
+    // Each collection's records as written by its codec; collections added since the file was written are missing
+    collections: Partial<Record<CollectionName, Record<string, unknown>>>;
+}
+
+/**
+ * Converts records to and from their on-disk representation
+ */
+interface Codec<T> {
+    encode(value: T): unknown;
+    decode(raw: any): T;
+}
+
+const plainCodec: Codec<any> = {
+    encode: value => value,
+    decode: raw => raw
+};
+
+function toDate(value: unknown): Date | null {
+    return value ? new Date(value as string) : null;
+}
+
+function organizationCodec(cipher: TokenCipher): Codec<OrgRecord> {
+    return {
+        encode: record => ({
+            ...record,
+            tokens: cipher.encrypt(record.tokens)
+        }),
+        decode: raw => ({
+            ...raw,
+            tokens: cipher.decrypt(raw.tokens),
+            activatedAt: new Date(raw.activatedAt),
+            lastRefreshedAt: toDate(raw.lastRefreshedAt),
+            tokenExpiresAt: toDate(raw.tokenExpiresAt),
+            refreshTokenExpiresAt: toDate(raw.refreshTokenExpiresAt)
+        })
+    };
+}
+
+/**
+ * Upgrades older documents one version at a time, keyed by the version they upgrade from.
+ * Version 1 is the first format written; there is nothing to upgrade yet.
+ */
+const MIGRATIONS: Record<number, (document: StoreDocument) => StoreDocument> = {};
+
+function migrate(doc: StoreDocument): { document: StoreDocument; migrated: boolean } {
+    let current = doc;
+    let version = doc.version;
+
+    while (version < CURRENT_VERSION) {
+        const migration = MIGRATIONS[version];
+        if (!migration) {
+            throw new Error(`No store migration from version ${version}`);
+        }
+        console.log(`Migrating store from version ${version}...`);
+        current = migration(current);
+        version = current.version;
+    }
+
+    if (version > CURRENT_VERSION) {
+        throw new Error(`Store version ${version} is newer than this server supports (${CURRENT_VERSION})`);
+    }
+
+    return { document: current, migrated: current !== doc };
+}
+
+class FileCollection<T> implements Collection<T> {
+    private readonly items = new Map<string, T>();
+
+    constructor(
+        private readonly codec: Codec<T>,
+        private readonly onChange: () => void,
+        raw: Record<string, unknown> = {}
+    ) {
+        for (const [key, value] of Object.entries(raw)) {
+            this.items.set(key, codec.decode(value));
+        }
+    }
+
+    async get(key: string): Promise<T | undefined> {
+        return this.items.get(key);
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        this.items.set(key, value);
+        this.onChange();
+    }
+
+    async delete(key: string): Promise<boolean> {
+        const deleted = this.items.delete(key);
+        if (deleted) {
+            this.onChange();
+        }
+        return deleted;
+    }
+
+    async entries(): Promise<Array<[string, T]>> {
+        return Array.from(this.items.entries());
+    }
+
+    serialize(): Record<string, unknown> {
+        const raw: Record<string, unknown> = {};
+        for (const [key, value] of this.items.entries()) {
+            raw[key] = this.codec.encode(value);
+        }
+        return raw;
+    }
+}
+
+/**
+ * JSON file store. Everything is held in memory and the whole file is rewritten after each change,
+ * which is plenty for a few hundred organizations. Tokens are encrypted with the configured key.
+ */
+export class FileStore implements IntegrationStore {
+    readonly organizations: FileCollection<OrgRecord>;
+    readonly oauthStates: FileCollection<OAuthStateRecord>;
+    readonly weatherStations: FileCollection<Entity[]>;
+    readonly feedDefinitions: FileCollection<FeedDefinition>;
+    readonly feedQueue: FileCollection<QueuedFeedMessage>;
+    readonly deadLetters: FileCollection<DeadLetterFeedMessage>;
+    readonly stationSchedules: FileCollection<StationSchedule>;
+    readonly forecasts: FileCollection<StationForecast>;
+    readonly alertRules: FileCollection<AlertRule>;
+    readonly alertStates: FileCollection<AlertState>;
+    readonly orgSettings: FileCollection<OrgSettings>;
+
+    private writeChain: Promise<void> = Promise.resolve();
+    private writeScheduled = false;
+
+    constructor(private readonly filePath: string, encryptionKey: string) {
+        const cipher = new TokenCipher(encryptionKey);
+        const { document, migrated } = this.load();
+        const onChange = () => this.scheduleWrite();
+        const collections = document.collections;
+
+        this.organizations = new FileCollection(organizationCodec(cipher), onChange, collections.organizations);
+        this.oauthStates = new FileCollection<OAuthStateRecord>(plainCodec, onChange, collections.oauthStates);
+        this.weatherStations = new FileCollection<Entity[]>(plainCodec, onChange, collections.weatherStations);
+        this.feedDefinitions = new FileCollection<FeedDefinition>(plainCodec, onChange, collections.feedDefinitions);
+        this.feedQueue = new FileCollection<QueuedFeedMessage>(plainCodec, onChange, collections.feedQueue);
+        this.deadLetters = new FileCollection<DeadLetterFeedMessage>(plainCodec, onChange, collections.deadLetters);
+        this.stationSchedules = new FileCollection<StationSchedule>(plainCodec, onChange, collections.stationSchedules);
+        this.forecasts = new FileCollection<StationForecast>(plainCodec, onChange, collections.forecasts);
+        this.alertRules = new FileCollection<AlertRule>(plainCodec, onChange, collections.alertRules);
+        this.alertStates = new FileCollection<AlertState>(plainCodec, onChange, collections.alertStates);
+        this.orgSettings = new FileCollection<OrgSettings>(plainCodec, onChange, collections.orgSettings);
+
+        // Write the upgraded document right away rather than on the next change
+        if (migrated) {
+            this.scheduleWrite();
+        }
+    }
+
+    async close(): Promise<void> {
+        await this.writeChain;
+    }
+
+    private load(): { document: StoreDocument; migrated: boolean } {
+        if (!fs.existsSync(this.filePath)) {
+            return { document: { version: CURRENT_VERSION, collections: {} }, migrated: false };
+        }
+
+        const raw: StoreDocument = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+        return migrate(raw);
+    }
+
+    private scheduleWrite() {
+        // Coalesce bursts of changes into a single write
+        if (this.writeScheduled) {
+            return;
+        }
+        this.writeScheduled = true;
+
+        this.writeChain = this.writeChain.then(async () => {
+            this.writeScheduled = false;
+            try {
+                await this.write();
+            } catch (error) {
+                console.error('Failed to persist store:', error);
+            }
+        });
+    }
+
+    private async write() {
+        const document: StoreDocument = {
+            version: CURRENT_VERSION,
+            collections: {
+                organizations: this.organizations.serialize(),
+                oauthStates: this.oauthStates.serialize(),
+                weatherStations: this.weatherStations.serialize(),
+                feedDefinitions: this.feedDefinitions.serialize(),
+                feedQueue: this.feedQueue.serialize(),
+                deadLetters: this.deadLetters.serialize(),
+                stationSchedules: this.stationSchedules.serialize(),
+                forecasts: this.forecasts.serialize(),
+                alertRules: this.alertRules.serialize(),
+                alertStates: this.alertStates.serialize(),
+                orgSettings: this.orgSettings.serialize()
+            }
+        };
+
+        // Write to a temporary file and rename so a crash never leaves a half-written store
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(document, null, 2), { mode: 0o600 });
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+}
@@ -0,0 +1,26 @@
+import { config } from '../config';
+import { FileStore } from './file-store';
+import { createMemoryStore } from './memory-store';
+import { IntegrationStore } from './types';
+
+export * from './types';
+
+/**
+ * Create the store selected by STORE_DRIVER.
+ * The file store requires TOKEN_ENCRYPTION_KEY so tokens are never written in plaintext.
+ */
+export function createStore(): IntegrationStore {
+    switch (config.STORE_DRIVER) {
+        case 'memory':
+            console.log('Using in-memory store (state is lost on restart)');
+            return createMemoryStore();
+        case 'file':
+            if (!config.TOKEN_ENCRYPTION_KEY) {
+                throw new Error('TOKEN_ENCRYPTION_KEY must be set to use the file store');
+            }
+            console.log(`Using file store: ${config.STORE_PATH}`);
+            return new FileStore(config.STORE_PATH, config.TOKEN_ENCRYPTION_KEY);
+        default:
+            throw new Error(`Unknown STORE_DRIVER: ${config.STORE_DRIVER}`);
+    }
+}
@@ -0,0 +1,54 @@
+import { Entity, FeedDefinition } from '../legion-client';
+import {
+    AlertRule,
+    AlertState,
+    Collection,
+    DeadLetterFeedMessage,
+    IntegrationStore,
+    OAuthStateRecord,
+    OrgRecord,
+    OrgSettings,
+    QueuedFeedMessage,
+    StationForecast,
+    StationSchedule
+} from './types';
+
+/**
+ * Map-backed collection. State is lost when the process exits.
+ */
+export class MemoryCollection<T> implements Collection<T> {
+    private readonly items = new Map<string, T>();
+
+    async get(key: string): Promise<T | undefined> {
+        return this.items.get(key);
+    }
+
+    async set(key: string, value: T): Promise<void> {
+        this.items.set(key, value);
+    }
+
+    async delete(key: string): Promise<boolean> {
+        return this.items.delete(key);
+    }
+
+    async entries(): Promise<Array<[string, T]>> {
+        return Array.from(this.items.entries());
+    }
+}
+
+export function createMemoryStore(): IntegrationStore {
+    return {
+        organizations: new MemoryCollection<OrgRecord>(),
+        oauthStates: new MemoryCollection<OAuthStateRecord>(),
+        weatherStations: new MemoryCollection<Entity[]>(),
+        feedDefinitions: new MemoryCollection<FeedDefinition>(),
+        feedQueue: new MemoryCollection<QueuedFeedMessage>(),
+        deadLetters: new MemoryCollection<DeadLetterFeedMessage>(),
+        stationSchedules: new MemoryCollection<StationSchedule>(),
+        forecasts: new MemoryCollection<StationForecast>(),
+        alertRules: new MemoryCollection<AlertRule>(),
+        alertStates: new MemoryCollection<AlertState>(),
+        orgSettings: new MemoryCollection<OrgSettings>(),
+        close: async () => {}
+    };
+}
@@ -0,0 +1,179 @@
+import { WeatherForecastPayload } from '../feed-schemas';
+import { Entity, FeedDefinition } from '../legion-client';
+import { TokenSet } from '../oauth';
+import { ProviderName } from '../providers/types';
+
+export type OrgStatus = 'active' | 'needs_reconsent';
+
+/**
+ * Everything we keep about an organization that has installed the integration
+ */
+export interface OrgRecord {
+    orgId: string;
+    tokens: TokenSet;
+    // Scopes granted with the current token set
+    scopes: string[];
+    status: OrgStatus;
+    activatedAt: Date;
+    lastRefreshedAt: Date | null;
+    tokenExpiresAt: Date | null;
+    refreshTokenExpiresAt: Date | null;
+}
+
+/**
+ * Settings an organization chose for itself. Kept apart from the org record so they survive reconnecting.
+ */
+export interface OrgSettings {
+    orgId: string;
+    // Weather provider for stations that don't name their own; null uses WEATHER_PROVIDER
+    weatherProvider: ProviderName | null;
+    updatedAt: string;
+}
+
+/**
+ * Pending authorization request, keyed by its OAuth state parameter
+ */
+export interface OAuthStateRecord {
+    orgId: string;
+    timestamp: number;
+    codeVerifier: string;
+}
+
+/**
+ * A feed message waiting to be delivered to Legion, keyed by its ID.
+ * The feed definition is looked up by name at delivery time, so readings can be queued
+ * even when Legion was unreachable before the definition was ever fetched.
+ */
+export interface QueuedFeedMessage {
+    id: string;
+    orgId: string;
+    entityId: string;
+    feedName: string;
+    // Delivery order; messages for the same entity are sent strictly in sequence
+    sequence: number;
+    // When the reading was taken, sent to Legion unchanged
+    recordedAt: string;
+    payload: Record<string, unknown>;
+    enqueuedAt: string;
+    attempts: number;
+    lastAttemptAt: string | null;
+    lastError: string | null;
+}
+
+/**
+ * A feed message Legion rejected for good (or that was pushed out of a full queue)
+ */
+export interface DeadLetterFeedMessage extends QueuedFeedMessage {
+    deadLetteredAt: string;
+    reason: string;
+    // HTTP status of the rejection, null when it never reached Legion
+    status: number | null;
+}
+
+/**
+ * When a weather station is polled automatically, and how its last poll went
+ */
+export interface StationSchedule {
+    orgId: string;
+    stationId: string;
+    enabled: boolean;
+    // Poll interval for this station; null uses POLL_DEFAULT_INTERVAL_MS
+    intervalMs: number | null;
+    nextRunAt: string;
+    lastRunAt: string | null;
+    // Outcome of the last poll: 'delivered', 'queued', 'dead_lettered', 'unchanged' or 'failed'
+    lastStatus: string | null;
+    lastError: string | null;
+}
+
+/**
+ * The latest forecast run published for a station
+ */
+export interface StationForecast {
+    orgId: string;
+    stationId: string;
+    forecastId: string;
+    issuedAt: string;
+    steps: WeatherForecastPayload[];
+}
+
+export type AlertOperator = 'above' | 'below' | 'in';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+// Where raised and cleared alerts are published: the station's weather_alert feed and/or alert entities
+export type AlertTarget = 'feed' | 'entity';
+
+/**
+ * A severe weather rule, evaluated against every reading of the organization's stations
+ */
+export interface AlertRule {
+    id: string;
+    orgId: string;
+    name: string;
+    // A numeric reading field (e.g. wind_speed) or 'condition_code'
+    metric: string;
+    operator: AlertOperator;
+    // For 'above' and 'below'
+    threshold: number | null;
+    // For 'in': OpenWeather condition codes (e.g. 200-232 for thunderstorms)
+    codes: number[] | null;
+    // How far back past the threshold a reading must go before the alert clears
+    hysteresis: number;
+    // Minimum time between two raises of the same alert on a station
+    cooldownSeconds: number;
+    severity: AlertSeverity;
+    publishTo: AlertTarget[];
+    // Stations the rule applies to; null for all of them
+    stationIds: string[] | null;
+    enabled: boolean;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Where a rule stands on one station
+ */
+export interface AlertState {
+    ruleId: string;
+    orgId: string;
+    stationId: string;
+    active: boolean;
+    // Current (or last) alert; a new one is issued on every raise
+    alertId: string | null;
+    raisedAt: string | null;
+    clearedAt: string | null;
+    lastValue: number | null;
+    // Legion alert entity for the current (or last) alert, when rules publish to entities
+    entityId: string | null;
+}
+
+/**
+ * A keyed set of records. Implementations may be backed by memory, a file or a database,
+ * so every operation is asynchronous.
+ */
+export interface Collection<T> {
+    get(key: string): Promise<T | undefined>;
+    set(key: string, value: T): Promise<void>;
+    delete(key: string): Promise<boolean>;
+    entries(): Promise<Array<[string, T]>>;
+}
+
+export interface IntegrationStore {
+    organizations: Collection<OrgRecord>; // orgId -> org record
+    oauthStates: Collection<OAuthStateRecord>; // state -> pending authorization
+    weatherStations: Collection<Entity[]>; // orgId -> array of weather station entities
+    feedDefinitions: Collection<FeedDefinition>; // `${orgId}-${feedName}` -> feed definition
+    feedQueue: Collection<QueuedFeedMessage>; // message ID -> message awaiting delivery
+    deadLetters: Collection<DeadLetterFeedMessage>; // message ID -> permanently rejected message
+    stationSchedules: Collection<StationSchedule>; // `${orgId}:${stationId}` -> polling schedule
+    forecasts: Collection<StationForecast>; // `${orgId}:${stationId}` -> latest forecast run
+    alertRules: Collection<AlertRule>; // rule ID -> alert rule
+    alertStates: Collection<AlertState>; // `${ruleId}:${stationId}` -> alert state
+    orgSettings: Collection<OrgSettings>; // orgId -> organization settings
+
+    /**
+     * Wait for pending writes to finish
+     */
+    close(): Promise<void>;
+}
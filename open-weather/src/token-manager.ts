@@ -0,0 +1,224 @@
+import { TokenSet } from './oauth';
+import { CircuitOpenError } from './resilience';
+import { parseGrantedScopes } from './scopes';
+import { Collection, OrgRecord } from './store';
+
+export interface TokenStatus {
+    expiresAt: Date | null;
+    refreshTokenExpiresAt: Date | null;
+    lastRefreshedAt: Date | null;
+    expired: boolean;
+    needsReconsent: boolean;
+}
+
+/**
+ * Thrown when the refresh token has been rejected and the organization has to re-consent
+ */
+export class SessionExpiredError extends Error {
+    constructor(public readonly orgId: string) {
+        super('SESSION_EXPIRED');
+        this.name = 'SessionExpiredError';
+    }
+}
+
+// Token endpoint errors that mean the refresh token itself is dead
+const SESSION_EXPIRED_MARKERS = ['Token is not active', 'invalid_grant', 'Refresh token expired', 'Session not active'];
+
+function isSessionExpiredError(error: any): boolean {
+    const body = error.response?.data;
+    const message = [
+        error.message,
+        typeof body === 'string' ? body : JSON.stringify(body || {})
+    ].join(' ');
+
+    return SESSION_EXPIRED_MARKERS.some(marker => message.includes(marker));
+}
+
+function expiryFields(tokens: TokenSet): Pick<OrgRecord, 'tokenExpiresAt' | 'refreshTokenExpiresAt'> {
+    const now = Date.now();
+    return {
+        tokenExpiresAt: tokens.expires_in ? new Date(now + tokens.expires_in * 1000) : null,
+        refreshTokenExpiresAt: tokens.refresh_expires_in ? new Date(now + tokens.refresh_expires_in * 1000) : null
+    };
+}
+
+/**
+ * Scopes granted to an organization. Token responses usually list them in `scope`; otherwise
+ * read the access token's claim. The token came straight from the token endpoint, so it isn't re-verified here.
+ */
+function grantedScopes(orgId: string, tokens: TokenSet): string[] {
+    let scope = tokens.scope;
+
+    if (!scope) {
+        try {
+            const payload = JSON.parse(Buffer.from(tokens.access_token.split('.')[1], 'base64url').toString('utf8'));
+            scope = payload.scope;
+        } catch {
+            scope = undefined;
+        }
+    }
+
+    return parseGrantedScopes(scope, orgId);
+}
+
+/**
+ * Token manager to handle automatic refresh, modeled on the drone sample's TokenManager.
+ * Refreshes are serialized per organization so concurrent requests share a single refresh.
+ */
+export class TokenManager {
+    private readonly pendingRefreshes = new Map<string, Promise<string>>();
+    private readonly refreshMarginMs: number;
+
+    constructor(
+        private readonly organizations: Collection<OrgRecord>,
+        private readonly refreshGrant: (refreshToken: string) => Promise<TokenSet>,
+        refreshMarginSeconds: number = 30
+    ) {
+        this.refreshMarginMs = refreshMarginSeconds * 1000;
+    }
+
+    /**
+     * Store the tokens from a completed OAuth flow, replacing any previous session
+     */
+    async activateOrganization(orgId: string, tokens: TokenSet): Promise<OrgRecord> {
+        const record: OrgRecord = {
+            orgId,
+            tokens,
+            scopes: grantedScopes(orgId, tokens),
+            status: 'active',
+            activatedAt: new Date(),
+            lastRefreshedAt: null,
+            ...expiryFields(tokens)
+        };
+
+        await this.organizations.set(orgId, record);
+        return record;
+    }
+
+    /**
+     * Store a token set obtained by refreshing an existing session
+     */
+    async updateTokens(orgId: string, tokens: TokenSet): Promise<OrgRecord> {
+        const existing = await this.organizations.get(orgId);
+        const expiry = expiryFields(tokens);
+
+        const record: OrgRecord = {
+            orgId,
+            tokens: {
+                ...tokens,
+                // Keycloak may omit the refresh token on refresh; keep the one we have
+                refresh_token: tokens.refresh_token || existing?.tokens.refresh_token
+            },
+            scopes: grantedScopes(orgId, tokens),
+            status: 'active',
+            activatedAt: existing?.activatedAt || new Date(),
+            lastRefreshedAt: new Date(),
+            tokenExpiresAt: expiry.tokenExpiresAt,
+            refreshTokenExpiresAt: expiry.refreshTokenExpiresAt || existing?.refreshTokenExpiresAt || null
+        };
+
+        await this.organizations.set(orgId, record);
+        return record;
+    }
+
+    isTokenExpired(record: OrgRecord): boolean {
+        if (!record.tokenExpiresAt) {
+            return false;
+        }
+        return Date.now() >= record.tokenExpiresAt.getTime() - this.refreshMarginMs;
+    }
+
+    /**
+     * Return a usable access token, refreshing it first if it is about to expire
+     */
+    async ensureValidToken(orgId: string): Promise<string> {
+        const record = await this.organizations.get(orgId);
+
+        if (!record) {
+            throw new Error('Organization not authorized');
+        }
+
+        if (record.status === 'needs_reconsent') {
+            throw new SessionExpiredError(orgId);
+        }
+
+        if (this.isTokenExpired(record)) {
+            console.log(`🔄 Token for org ${orgId} expired, refreshing...`);
+            return this.refresh(orgId, record.tokens.access_token);
+        }
+
+        return record.tokens.access_token;
+    }
+
+    /**
+     * Refresh the access token for an organization.
+     * If staleAccessToken is given and another caller already replaced it, the new token is returned as-is.
+     */
+    async refresh(orgId: string, staleAccessToken?: string): Promise<string> {
+        const pending = this.pendingRefreshes.get(orgId);
+        if (pending) {
+            return pending;
+        }
+
+        const refresh = this.performRefresh(orgId, staleAccessToken).finally(() => {
+            this.pendingRefreshes.delete(orgId);
+        });
+        this.pendingRefreshes.set(orgId, refresh);
+
+        return refresh;
+    }
+
+    async getTokenStatus(orgId: string): Promise<TokenStatus | null> {
+        const record = await this.organizations.get(orgId);
+        return record ? this.tokenStatus(record) : null;
+    }
+
+    tokenStatus(record: OrgRecord): TokenStatus {
+        return {
+            expiresAt: record.tokenExpiresAt,
+            refreshTokenExpiresAt: record.refreshTokenExpiresAt,
+            lastRefreshedAt: record.lastRefreshedAt,
+            expired: !!record.tokenExpiresAt && Date.now() >= record.tokenExpiresAt.getTime(),
+            needsReconsent: record.status === 'needs_reconsent'
+        };
+    }
+
+    private async performRefresh(orgId: string, staleAccessToken?: string): Promise<string> {
+        const record = await this.organizations.get(orgId);
+        if (!record) {
+            throw new Error('Organization not authorized');
+        }
+
+        if (staleAccessToken && record.tokens.access_token !== staleAccessToken && !this.isTokenExpired(record)) {
+            return record.tokens.access_token;
+        }
+
+        const refreshToken = record.tokens.refresh_token;
+        if (!refreshToken) {
+            await this.markNeedsReconsent(record);
+            throw new SessionExpiredError(orgId);
+        }
+
+        try {
+            const tokens = await this.refreshGrant(refreshToken);
+            const updated = await this.updateTokens(orgId, tokens);
+            console.log(`✅ Token for org ${orgId} refreshed successfully`);
+            return updated.tokens.access_token;
+        } catch (error: any) {
+            if (isSessionExpiredError(error)) {
+                await this.markNeedsReconsent(record);
+                throw new SessionExpiredError(orgId);
+            }
+            // Passed on as it is so callers can tell an unavailable identity provider from a failed refresh
+            if (error instanceof CircuitOpenError) {
+                throw error;
+            }
+            throw new Error(`Failed to refresh token: ${error.response?.data?.error_description || error.message}`);
+        }
+    }
+
+    private async markNeedsReconsent(record: OrgRecord) {
+        console.warn(`⚠️  Refresh token for org ${record.orgId} is no longer valid, re-consent required`);
+        await this.organizations.set(record.orgId, { ...record, status: 'needs_reconsent' });
+    }
+}
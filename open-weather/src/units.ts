@@ -0,0 +1,118 @@
+/**
+ * Units of weather quantities. Providers normalize their data to SI (kelvin, pascal, m/s, metres;
+ * precipitation as mm, i.e. kg/m²), feeds are published in metric units, and read APIs convert to
+ * the unit system asked for. Units are named by their UCUM codes (https://ucum.org), e.g. `Cel`
+ * for °C, so consumers can tell what a number means without guessing.
+ */
+export type UnitSystem = 'metric' | 'imperial' | 'standard';
+
+// As OpenWeather names them: standard is kelvin with otherwise metric units
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial', 'standard'];
+
+export type Quantity = 'temperature' | 'pressure' | 'speed' | 'distance' | 'precipitation' | 'percent' | 'angle' | 'fraction';
+
+interface UnitDefinition {
+    quantity: Quantity;
+    // Value in the SI unit = value * scale + offset
+    scale: number;
+    offset: number;
+    // Converted values are rounded to this many decimals
+    decimals: number;
+}
+
+export const UNITS: Record<string, UnitDefinition> = {
+    'K': { quantity: 'temperature', scale: 1, offset: 0, decimals: 2 },
+    'Cel': { quantity: 'temperature', scale: 1, offset: 273.15, decimals: 2 },
+    '[degF]': { quantity: 'temperature', scale: 5 / 9, offset: 459.67 * 5 / 9, decimals: 2 },
+    'Pa': { quantity: 'pressure', scale: 1, offset: 0, decimals: 0 },
+    'hPa': { quantity: 'pressure', scale: 100, offset: 0, decimals: 1 },
+    "[in_i'Hg]": { quantity: 'pressure', scale: 3386.389, offset: 0, decimals: 2 },
+    'm/s': { quantity: 'speed', scale: 1, offset: 0, decimals: 2 },
+    '[mi_i]/h': { quantity: 'speed', scale: 0.44704, offset: 0, decimals: 2 },
+    'm': { quantity: 'distance', scale: 1, offset: 0, decimals: 0 },
+    '[mi_i]': { quantity: 'distance', scale: 1609.344, offset: 0, decimals: 2 },
+    'mm': { quantity: 'precipitation', scale: 1, offset: 0, decimals: 2 },
+    '[in_i]': { quantity: 'precipitation', scale: 25.4, offset: 0, decimals: 2 },
+    '%': { quantity: 'percent', scale: 1, offset: 0, decimals: 0 },
+    'deg': { quantity: 'angle', scale: 1, offset: 0, decimals: 0 },
+    '1': { quantity: 'fraction', scale: 1, offset: 0, decimals: 2 }
+};
+
+// Units that are the same in every system
+const COMMON_UNITS = { percent: '%', angle: 'deg', fraction: '1' };
+
+export const SI_UNITS: Record<Quantity, string> = {
+    temperature: 'K',
+    pressure: 'Pa',
+    speed: 'm/s',
+    distance: 'm',
+    precipitation: 'mm',
+    ...COMMON_UNITS
+};
+
+export const SYSTEM_UNITS: Record<UnitSystem, Record<Quantity, string>> = {
+    metric: { temperature: 'Cel', pressure: 'hPa', speed: 'm/s', distance: 'm', precipitation: 'mm', ...COMMON_UNITS },
+    imperial: { temperature: '[degF]', pressure: "[in_i'Hg]", speed: '[mi_i]/h', distance: '[mi_i]', precipitation: '[in_i]', ...COMMON_UNITS },
+    standard: { temperature: 'K', pressure: 'hPa', speed: 'm/s', distance: 'm', precipitation: 'mm', ...COMMON_UNITS }
+};
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+    return UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+function definition(unit: string): UnitDefinition {
+    const found = UNITS[unit];
+    if (!found) {
+        throw new Error(`Unknown unit: ${unit}`);
+    }
+    return found;
+}
+
+function round(value: number, decimals: number): number {
+    const factor = 10 ** decimals;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * A value in the SI unit of its quantity. Not rounded, so repeated conversions don't lose precision.
+ */
+export function toSi(value: number, unit: string): number {
+    const { scale, offset } = definition(unit);
+    return value * scale + offset;
+}
+
+/**
+ * An SI value in another unit of the same quantity, rounded to that unit's precision
+ */
+export function fromSi(value: number, unit: string): number {
+    const { scale, offset, decimals } = definition(unit);
+    return round((value - offset) / scale, decimals);
+}
+
+export function convert(value: number, from: string, to: string): number {
+    if (definition(from).quantity !== definition(to).quantity) {
+        throw new Error(`Cannot convert ${from} to ${to}`);
+    }
+    return from === to ? value : fromSi(toSi(value, from), to);
+}
+
+/**
+ * The same fields in another set of units, e.g. `unitsIn(feedUnits, SYSTEM_UNITS.imperial)`
+ */
+export function unitsIn(units: Record<string, string>, system: Record<Quantity, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(units).map(([field, unit]) => [field, system[definition(unit).quantity]]));
+}
+
+/**
+ * Convert the numeric fields of an object from one set of units to another. Fields without
+ * units in both, and values that aren't numbers (e.g. null), are copied as they are.
+ */
+export function convertFields<T extends Record<string, unknown>>(values: T, from: Record<string, string>, to: Record<string, string>): T {
+    const converted: Record<string, unknown> = { ...values };
+    for (const [field, value] of Object.entries(values)) {
+        if (typeof value === 'number' && from[field] && to[field]) {
+            converted[field] = convert(value, from[field], to[field]);
+        }
+    }
+    return converted as T;
+}
@@ -0,0 +1,267 @@
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { ResilienceOptions, Upstream, UpstreamRequestOptions } from './resilience';
+
+/**
+ * Response caching and quota tracking for a metered upstream (the weather providers). The same
+ * place's weather is asked for by the weather route, "View Data", station updates and scheduled
+ * polls; GET responses are kept for a while so it is fetched once, and identical requests already
+ * in flight share one call. Calls that do go out are counted per minute and per day against the
+ * plan's limits, so polls can back off before the quota runs out.
+ */
+export interface CacheOptions {
+    ttlMs: number;
+    // Oldest responses are dropped beyond this
+    maxEntries: number;
+}
+
+export interface QuotaLimits {
+    // Calls allowed per minute and per UTC day; 0 means no limit
+    perMinute: number;
+    perDay: number;
+    // Share of each limit kept for interactive requests: scheduled polls wait once the rest is used
+    reserveRatio: number;
+}
+
+export type QuotaWindowName = 'minute' | 'day';
+
+export interface QuotaWindowSnapshot {
+    used: number;
+    limit: number | null;
+    resetsAt: Date;
+}
+
+export interface UpstreamCacheSnapshot {
+    upstream: string;
+    cache: {
+        entries: number;
+        hits: number;
+        // Requests that joined an identical one already in flight
+        collapsed: number;
+        misses: number;
+        hitRate: number | null;
+    };
+    quota: {
+        minute: QuotaWindowSnapshot;
+        day: QuotaWindowSnapshot;
+        pollsDeferred: boolean;
+        // Cache keys that made the most calls today
+        topKeys: Array<{ key: string; minute: number; day: number }>;
+    };
+}
+
+/**
+ * Thrown without calling the upstream once a quota window is used up
+ */
+export class QuotaExceededError extends Error {
+    readonly code = 'QUOTA_EXCEEDED';
+
+    constructor(public readonly upstream: string, public readonly window: QuotaWindowName, public readonly retryAt: Date) {
+        super(`${upstream} call quota for this ${window} is used up (resets at ${retryAt.toISOString()})`);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+const WINDOW_MS: Record<QuotaWindowName, number> = {
+    minute: 60 * 1000,
+    day: 24 * 60 * 60 * 1000
+};
+
+// Coordinates are rounded to about 1 km in cache keys, so nearby stations share a response
+const COORDINATE_DECIMALS = 2;
+const COORDINATE_PARAMS = ['lat', 'lon', 'latitude', 'longitude'];
+
+// Credentials don't change the response and must not end up in /health
+const IGNORED_PARAMS = ['appid'];
+
+const TOP_KEYS = 5;
+
+/**
+ * The URL and its parameters in a stable order, e.g. ".../data/2.5/weather?lat=51.51&lon=-0.13&units=metric"
+ */
+function cacheKey(requestConfig: AxiosRequestConfig): string {
+    const params = Object.entries(requestConfig.params || {})
+        .filter(([name, value]) => value !== undefined && !IGNORED_PARAMS.includes(name))
+        .map(([name, value]) => {
+            const normalized = COORDINATE_PARAMS.includes(name) && typeof value === 'number'
+                ? value.toFixed(COORDINATE_DECIMALS)
+                : String(value);
+            return `${name}=${normalized}`;
+        })
+        .sort();
+    return params.length > 0 ? `${requestConfig.url}?${params.join('&')}` : `${requestConfig.url}`;
+}
+
+interface QuotaWindow {
+    // Start of the current window; windows are aligned to the minute and to UTC midnight
+    start: number;
+    total: number;
+    byKey: Map<string, number>;
+}
+
+export class QuotaTracker {
+    private readonly windows: Record<QuotaWindowName, QuotaWindow> = {
+        minute: { start: 0, total: 0, byKey: new Map() },
+        day: { start: 0, total: 0, byKey: new Map() }
+    };
+
+    constructor(private readonly upstream: string, private readonly limits: QuotaLimits) {}
+
+    record(key: string) {
+        for (const name of ['minute', 'day'] as QuotaWindowName[]) {
+            const window = this.current(name);
+            window.total++;
+            window.byKey.set(key, (window.byKey.get(key) || 0) + 1);
+        }
+    }
+
+    /**
+     * Throws QuotaExceededError when one more call would go over a limit
+     */
+    assertAvailable() {
+        const window = this.exhaustedWindow(0);
+        if (window) {
+            throw new QuotaExceededError(this.upstream, window, this.resetsAt(window));
+        }
+    }
+
+    /**
+     * Whether scheduled polls should wait, leaving the reserved rest of the quota to interactive requests
+     */
+    shouldDefer(): boolean {
+        return this.exhaustedWindow(this.limits.reserveRatio) !== null;
+    }
+
+    snapshot(): UpstreamCacheSnapshot['quota'] {
+        const minute = this.current('minute');
+        const day = this.current('day');
+        const topKeys = [...day.byKey.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, TOP_KEYS)
+            .map(([key, calls]) => ({ key, minute: minute.byKey.get(key) || 0, day: calls }));
+
+        return {
+            minute: { used: minute.total, limit: this.limits.perMinute || null, resetsAt: this.resetsAt('minute') },
+            day: { used: day.total, limit: this.limits.perDay || null, resetsAt: this.resetsAt('day') },
+            pollsDeferred: this.shouldDefer(),
+            topKeys
+        };
+    }
+
+    /**
+     * The first window whose limit, less the reserved share, is used up
+     */
+    private exhaustedWindow(reserveRatio: number): QuotaWindowName | null {
+        const limits: Record<QuotaWindowName, number> = { minute: this.limits.perMinute, day: this.limits.perDay };
+        for (const name of ['minute', 'day'] as QuotaWindowName[]) {
+            if (limits[name] > 0 && this.current(name).total >= limits[name] * (1 - reserveRatio)) {
+                return name;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * The window as of now, starting a new one once the old one has passed
+     */
+    private current(name: QuotaWindowName): QuotaWindow {
+        const start = Math.floor(Date.now() / WINDOW_MS[name]) * WINDOW_MS[name];
+        if (this.windows[name].start !== start) {
+            this.windows[name] = { start, total: 0, byKey: new Map() };
+        }
+        return this.windows[name];
+    }
+
+    private resetsAt(name: QuotaWindowName): Date {
+        return new Date(this.current(name).start + WINDOW_MS[name]);
+    }
+}
+
+interface CacheEntry {
+    response: AxiosResponse;
+    expiresAt: number;
+}
+
+/**
+ * An Upstream whose GET responses are cached and whose calls count against a quota.
+ * Only successful responses are cached; retries count as calls since the upstream sees each one.
+ */
+export class CachedUpstream extends Upstream {
+    readonly quota: QuotaTracker;
+    private readonly entries = new Map<string, CacheEntry>();
+    private readonly inFlight = new Map<string, Promise<AxiosResponse>>();
+    private readonly counters = { hits: 0, collapsed: 0, misses: 0 };
+
+    constructor(name: string, options: ResilienceOptions, private readonly cacheOptions: CacheOptions, limits: QuotaLimits) {
+        super(name, options);
+        this.quota = new QuotaTracker(name, limits);
+    }
+
+    async request<T = any>(requestConfig: AxiosRequestConfig, requestOptions: UpstreamRequestOptions = {}): Promise<AxiosResponse<T>> {
+        if ((requestConfig.method || 'GET').toUpperCase() !== 'GET') {
+            this.quota.assertAvailable();
+            return super.request<T>(requestConfig, requestOptions);
+        }
+
+        const key = cacheKey(requestConfig);
+        const cached = this.entries.get(key);
+        if (cached && cached.expiresAt > Date.now()) {
+            this.counters.hits++;
+            return cached.response;
+        }
+
+        const pending = this.inFlight.get(key);
+        if (pending) {
+            this.counters.collapsed++;
+            return pending as Promise<AxiosResponse<T>>;
+        }
+
+        this.quota.assertAvailable();
+        this.counters.misses++;
+
+        const request = super.request<T>(requestConfig, requestOptions)
+            .then(response => {
+                this.store(key, response);
+                return response;
+            })
+            .finally(() => this.inFlight.delete(key));
+        this.inFlight.set(key, request);
+        return request;
+    }
+
+    snapshot(): UpstreamCacheSnapshot {
+        const { hits, collapsed, misses } = this.counters;
+        const total = hits + collapsed + misses;
+
+        return {
+            upstream: this.name,
+            cache: {
+                entries: this.entries.size,
+                hits,
+                collapsed,
+                misses,
+                hitRate: total > 0 ? Math.round((hits + collapsed) / total * 1000) / 1000 : null
+            },
+            quota: this.quota.snapshot()
+        };
+    }
+
+    protected send<T>(requestConfig: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+        this.quota.record(cacheKey(requestConfig));
+        return super.send<T>(requestConfig);
+    }
+
+    private store(key: string, response: AxiosResponse) {
+        const now = Date.now();
+        this.entries.delete(key);
+
+        // Every entry lives as long, so the oldest are the first to expire
+        for (const [oldestKey, oldest] of this.entries) {
+            if (oldest.expiresAt > now && this.entries.size < this.cacheOptions.maxEntries) {
+                break;
+            }
+            this.entries.delete(oldestKey);
+        }
+
+        this.entries.set(key, { response, expiresAt: now + this.cacheOptions.ttlMs });
+    }
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { DeviceFlowError, DeviceFlowOptions, runDeviceFlow } from '../src/device-flow';
+
+/**
+ * A Legion API and Keycloak realm on one local server. Token endpoint answers are scripted per test.
+ */
+describe('runDeviceFlow', () => {
+    let server: http.Server;
+    let options: DeviceFlowOptions;
+    let tokenResponses: Array<{ status: number; body: unknown }>;
+    let tokenRequests: URLSearchParams[];
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                const base = `http://localhost:${(server.address() as AddressInfo).port}`;
+                const send = (status: number, json: unknown) => {
+                    res.writeHead(status, { 'Content-Type': 'application/json' });
+                    res.end(JSON.stringify(json));
+                };
+
+                switch (req.url) {
+                    case '/integrations/oauth/authorization-url':
+                        return send(200, { authorization_url: `${base}/realms/test/protocol/openid-connect/auth` });
+                    case '/realms/test/.well-known/openid-configuration':
+                        return send(200, {
+                            issuer: `${base}/realms/test`,
+                            token_endpoint: `${base}/token`,
+                            jwks_uri: `${base}/certs`,
+                            device_authorization_endpoint: `${base}/device`
+                        });
+                    case '/device':
+                        return send(200, {
+                            device_code: 'device-code',
+                            user_code: 'ABCD-EFGH',
+                            verification_uri: `${base}/device/verify`,
+                            expires_in: 60,
+                            interval: 0.01
+                        });
+                    case '/token': {
+                        tokenRequests.push(new URLSearchParams(body));
+                        const next = tokenResponses.shift() || { status: 400, body: { error: 'authorization_pending' } };
+                        return send(next.status, next.body);
+                    }
+                    default:
+                        return send(404, {});
+                }
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, resolve));
+
+        options = {
+            legionApiUrl: `http://localhost:${(server.address() as AddressInfo).port}`,
+            clientId: 'device-client'
+        };
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(() => {
+        tokenResponses = [];
+        tokenRequests = [];
+    });
+
+    it('polls while authorization is pending and returns the tokens', async () => {
+        tokenResponses = [
+            { status: 400, body: { error: 'authorization_pending' } },
+            { status: 400, body: { error: 'authorization_pending' } },
+            { status: 200, body: { access_token: 'access', refresh_token: 'refresh', expires_in: 300 } }
+        ];
+        let shown: string | null = null;
+
+        const tokens = await runDeviceFlow(options, authorization => {
+            shown = authorization.user_code;
+        });
+
+        assert.equal(shown, 'ABCD-EFGH');
+        assert.equal(tokens.access_token, 'access');
+        assert.equal(tokenRequests.length, 3);
+        assert.equal(tokenRequests[0].get('grant_type'), 'urn:ietf:params:oauth:grant-type:device_code');
+        assert.equal(tokenRequests[0].get('device_code'), 'device-code');
+        assert.equal(tokenRequests[0].get('client_id'), 'device-client');
+    });
+
+    it('fails with access_denied when the user denies the device', async () => {
+        tokenResponses = [{ status: 400, body: { error: 'access_denied' } }];
+
+        await assert.rejects(runDeviceFlow(options, () => {}), (error: unknown) =>
+            error instanceof DeviceFlowError && error.code === 'access_denied');
+    });
+
+    it('fails with expired_token when the code runs out', async () => {
+        tokenResponses = [{ status: 400, body: { error: 'expired_token' } }];
+
+        await assert.rejects(runDeviceFlow(options, () => {}), (error: unknown) =>
+            error instanceof DeviceFlowError && error.code === 'expired_token');
+    });
+
+    it('passes other token endpoint errors on', async () => {
+        tokenResponses = [{ status: 401, body: { error: 'invalid_client' } }];
+
+        await assert.rejects(runDeviceFlow(options, () => {}), (error: any) =>
+            !(error instanceof DeviceFlowError) && error.response?.data?.error === 'invalid_client');
+    });
+});
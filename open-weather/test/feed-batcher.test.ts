@@ -0,0 +1,130 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FeedBatcher, FeedMessageResult } from '../src/feed-batcher';
+import { FeedMessageNotSentError } from '../src/feed-queue';
+import { BulkFeedMessageResult, CreateFeedMessageRequest, FeedMessage, LegionApiError, LegionClient } from '../src/legion-client';
+
+function message(entityId: string, recordedAt: string): CreateFeedMessageRequest {
+    return { entity_id: entityId, feed_definition_id: 'weather', recorded_at: recordedAt, payload: { temperature: 20 } };
+}
+
+/**
+ * A LegionClient that answers feed posts from a script instead of the network
+ */
+class ScriptedLegionClient extends LegionClient {
+    readonly singles: string[] = [];
+    readonly bulks: string[][] = [];
+    bulkError: LegionApiError | null = null;
+    readonly failures: Record<string, LegionApiError> = {};
+
+    constructor() {
+        super({ baseUrl: 'http://legion.test/v3', accessToken: async () => 'token' });
+    }
+
+    async createFeedMessage<P>(request: CreateFeedMessageRequest<P>): Promise<FeedMessage<P>> {
+        this.singles.push(request.recorded_at);
+        const failure = this.failures[request.recorded_at];
+        if (failure) {
+            throw failure;
+        }
+        return { ...request, id: `message-${request.recorded_at}` };
+    }
+
+    async createFeedMessages<P>(requests: CreateFeedMessageRequest<P>[]): Promise<BulkFeedMessageResult[]> {
+        this.bulks.push(requests.map(request => request.recorded_at));
+        if (this.bulkError) {
+            throw this.bulkError;
+        }
+        return requests.map(request => {
+            const failure = this.failures[request.recorded_at];
+            return failure ? { status: failure.status!, error: 'rejected' } : { id: `message-${request.recorded_at}`, status: 201 };
+        });
+    }
+}
+
+function createBatcher(client: LegionClient, maxBatchSize = 10) {
+    return new FeedBatcher(() => client, { maxBatchSize, maxWaitMs: 10, concurrency: 2 });
+}
+
+const outcomes = (results: FeedMessageResult[]) => results.map(result => {
+    if (result.ok) {
+        return 'ok';
+    }
+    return result.error instanceof FeedMessageNotSentError ? 'not_sent' : 'failed';
+});
+
+describe('FeedBatcher', () => {
+    it('sends a batch through the bulk endpoint with a result per message', async () => {
+        const client = new ScriptedLegionClient();
+        client.failures.t2 = new LegionApiError('POST', '/feeds/messages/batch', 422, null, null);
+        const batcher = createBatcher(client);
+
+        const results = await batcher.submitAll('org-1', [message('station-1', 't1'), message('station-2', 't2')]);
+
+        assert.deepEqual(client.bulks, [['t1', 't2']]);
+        assert.deepEqual(outcomes(results), ['ok', 'failed']);
+        const rejected = results[1];
+        assert.ok(!rejected.ok && rejected.error instanceof LegionApiError);
+        assert.equal(rejected.error.status, 422);
+    });
+
+    it("holds back a station's messages after one failed in an earlier chunk", async () => {
+        const client = new ScriptedLegionClient();
+        client.failures.t1 = new LegionApiError('POST', '/feeds/messages/batch', 500, null, null);
+        const batcher = createBatcher(client, 2);
+
+        const results = await batcher.submitAll('org-1', [
+            message('station-1', 't1'),
+            message('station-2', 't2'),
+            message('station-1', 't3'),
+            message('station-2', 't4')
+        ]);
+
+        assert.deepEqual(client.bulks, [['t1', 't2']]);
+        assert.deepEqual(client.singles, ['t4']);
+        assert.deepEqual(outcomes(results), ['failed', 'ok', 'not_sent', 'ok']);
+        assert.equal(batcher.stats().messagesFailed, 1);
+    });
+
+    it('fails every message when the whole bulk call fails', async () => {
+        const client = new ScriptedLegionClient();
+        client.bulkError = new LegionApiError('POST', '/feeds/messages/batch', 503, null, null);
+        const batcher = createBatcher(client);
+
+        const results = await batcher.submitAll('org-1', [message('station-1', 't1'), message('station-2', 't2')]);
+
+        assert.deepEqual(outcomes(results), ['failed', 'failed']);
+        assert.deepEqual(client.singles, []);
+    });
+
+    it('posts one at a time without a bulk endpoint and stops a station at its first failure', async () => {
+        const client = new ScriptedLegionClient();
+        client.bulkError = new LegionApiError('POST', '/feeds/messages/batch', 404, null, null);
+        client.failures.t1 = new LegionApiError('POST', '/feeds/messages', 503, null, null);
+        const batcher = createBatcher(client);
+
+        const results = await batcher.submitAll('org-1', [
+            message('station-1', 't1'),
+            message('station-1', 't2'),
+            message('station-2', 't3'),
+            message('station-2', 't4')
+        ]);
+
+        assert.deepEqual(client.singles.filter(recordedAt => recordedAt === 't1' || recordedAt === 't2'), ['t1']);
+        assert.deepEqual(client.singles.filter(recordedAt => recordedAt === 't3' || recordedAt === 't4'), ['t3', 't4']);
+        assert.deepEqual(outcomes(results), ['failed', 'not_sent', 'ok', 'ok']);
+    });
+
+    it('batches what was submitted while a call was in flight', async () => {
+        const client = new ScriptedLegionClient();
+        const batcher = createBatcher(client);
+
+        const first = batcher.submitAll('org-1', [message('station-1', 't1')]);
+        const second = batcher.submitAll('org-1', [message('station-1', 't2')]);
+        const third = batcher.submitAll('org-1', [message('station-2', 't3')]);
+        await Promise.all([first, second, third]);
+
+        assert.deepEqual(client.singles, ['t1']);
+        assert.deepEqual(client.bulks, [['t2', 't3']]);
+    });
+});
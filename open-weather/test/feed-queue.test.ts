@@ -0,0 +1,181 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FeedMessageInput, FeedMessageNotSentError, FeedMessageSender, FeedQueue } from '../src/feed-queue';
+import { LegionApiError } from '../src/legion-client';
+import { DeadLetterFeedMessage, QueuedFeedMessage } from '../src/store';
+import { MemoryCollection } from '../src/store/memory-store';
+
+function reading(entityId: string, recordedAt: string): FeedMessageInput {
+    return { orgId: 'org-1', entityId, feedName: 'weather', recordedAt, payload: { temperature: 20 } };
+}
+
+function apiError(status: number) {
+    return new LegionApiError('POST', '/feeds/messages', status, null, null);
+}
+
+/**
+ * A sender that fails the messages recorded at the given times, and keeps the batches it was called with
+ */
+function scriptedSender(failures: Record<string, Error> = {}) {
+    const calls: string[][] = [];
+    const send: FeedMessageSender = async (orgId, messages) => {
+        calls.push(messages.map(message => message.recordedAt));
+        return messages.map(message => failures[message.recordedAt] || null);
+    };
+    return { calls, send };
+}
+
+function createQueue(send: FeedMessageSender, maxSize = 100) {
+    return new FeedQueue(
+        new MemoryCollection<QueuedFeedMessage>(),
+        new MemoryCollection<DeadLetterFeedMessage>(),
+        send,
+        { maxSize, retryIntervalMs: 60_000 }
+    );
+}
+
+describe('FeedQueue', () => {
+    it('delivers a message and removes it from the queue', async () => {
+        const { calls, send } = scriptedSender();
+        const queue = createQueue(send);
+
+        const result = await queue.publish(reading('station-1', 't1'));
+
+        assert.equal(result.status, 'delivered');
+        assert.deepEqual(calls, [['t1']]);
+        assert.equal((await queue.stats()).pending, 0);
+    });
+
+    it('sends an entity backlog oldest first in one call', async () => {
+        const failures: Record<string, Error> = { t1: apiError(503) };
+        const { calls, send } = scriptedSender(failures);
+        const queue = createQueue(send);
+
+        assert.equal((await queue.publish(reading('station-1', 't1'))).status, 'queued');
+        delete failures.t1;
+        await queue.publish(reading('station-1', 't2'));
+
+        assert.deepEqual(calls, [['t1'], ['t1', 't2']]);
+        assert.equal((await queue.stats()).pending, 0);
+    });
+
+    it('keeps entities apart', async () => {
+        const { calls, send } = scriptedSender();
+        const queue = createQueue(send);
+
+        await queue.publishAll([reading('station-1', 't1'), reading('station-2', 't2'), reading('station-1', 't3')]);
+
+        assert.deepEqual(calls.sort(), [['t1', 't3'], ['t2']]);
+    });
+
+    it('dead-letters a message Legion rejects and delivers the rest', async () => {
+        const { send } = scriptedSender({ t1: apiError(400) });
+        const queue = createQueue(send);
+
+        const results = await queue.publishAll([reading('station-1', 't1'), reading('station-1', 't2')]);
+
+        assert.deepEqual(results.map(result => result.status), ['dead_lettered', 'delivered']);
+        const [deadLetter] = await queue.deadLettered('org-1');
+        assert.equal(deadLetter.status, 400);
+        assert.equal(deadLetter.attempts, 1);
+    });
+
+    it('treats 401, 408 and 429 as worth retrying', async () => {
+        const { send } = scriptedSender({ t1: apiError(401), t2: apiError(408), t3: apiError(429) });
+
+        for (const recordedAt of ['t1', 't2', 't3']) {
+            const queue = createQueue(send);
+            assert.equal((await queue.publish(reading('station-1', recordedAt))).status, 'queued');
+        }
+    });
+
+    it('evicts the oldest messages to the dead letters once full', async () => {
+        const { send } = scriptedSender({ t1: apiError(503), t2: apiError(503), t3: apiError(503) });
+        const queue = createQueue(send, 2);
+
+        for (const recordedAt of ['t1', 't2', 't3']) {
+            await queue.enqueue(reading('station-1', recordedAt));
+        }
+
+        assert.deepEqual((await queue.pending()).map(message => message.recordedAt), ['t2', 't3']);
+        const [evicted] = await queue.deadLettered();
+        assert.equal(evicted.recordedAt, 't1');
+        assert.equal(evicted.reason, 'Evicted: feed queue full');
+    });
+
+    it('puts retried dead letters back ahead of newer messages', async () => {
+        const failures: Record<string, Error> = { t1: apiError(400), t2: apiError(503) };
+        const { calls, send } = scriptedSender(failures);
+        const queue = createQueue(send);
+        await queue.publishAll([reading('station-1', 't1'), reading('station-1', 't2')]);
+
+        delete failures.t1;
+        delete failures.t2;
+        const [result] = await queue.retryDeadLetters('org-1');
+
+        assert.equal(result.status, 'delivered');
+        assert.deepEqual(calls[calls.length - 1], ['t1', 't2']);
+        assert.equal((await queue.deadLettered()).length, 0);
+    });
+
+    it('continues sequence numbers after messages left from the last run', async () => {
+        const queued = new MemoryCollection<QueuedFeedMessage>();
+        const { send } = scriptedSender({ t1: apiError(503) });
+        await new FeedQueue(queued, new MemoryCollection(), send, { maxSize: 10, retryIntervalMs: 60_000 })
+            .publish(reading('station-1', 't1'));
+
+        const restarted = new FeedQueue(queued, new MemoryCollection(), send, { maxSize: 10, retryIntervalMs: 60_000 });
+        await restarted.enqueue(reading('station-1', 't2'));
+
+        assert.deepEqual((await restarted.pending()).map(message => message.recordedAt), ['t1', 't2']);
+    });
+});
+
+describe('FeedQueue ordering', () => {
+    it('keeps everything after the first transient failure queued', async () => {
+        const failures: Record<string, Error> = { t2: apiError(503) };
+        const send: FeedMessageSender = async (orgId, messages) => {
+            const stop = messages.findIndex(message => failures[message.recordedAt]);
+            return messages.map((message, index) => stop === -1 || index < stop
+                ? null
+                : index === stop ? failures[message.recordedAt] : new FeedMessageNotSentError());
+        };
+        const queue = createQueue(send);
+
+        const results = await queue.publishAll([reading('station-1', 't1'), reading('station-1', 't2'), reading('station-1', 't3')]);
+
+        assert.deepEqual(results.map(result => result.status), ['delivered', 'queued', 'queued']);
+        assert.deepEqual((await queue.pending()).map(message => message.recordedAt), ['t2', 't3']);
+
+        delete failures.t2;
+        await queue.flush();
+        assert.equal((await queue.stats()).pending, 0);
+    });
+
+    it("doesn't send again what a bulk call stored after the failure", async () => {
+        const { calls, send } = scriptedSender({ t2: apiError(503) });
+        const queue = createQueue(send);
+
+        const results = await queue.publishAll([reading('station-1', 't1'), reading('station-1', 't2'), reading('station-1', 't3')]);
+
+        assert.deepEqual(results.map(result => result.status), ['delivered', 'queued', 'delivered']);
+        await queue.flush();
+        assert.deepEqual(calls, [['t1', 't2', 't3'], ['t2']]);
+    });
+
+    it('sends messages held back behind a dead letter straight away', async () => {
+        const calls: string[][] = [];
+        const send: FeedMessageSender = async (orgId, messages) => {
+            calls.push(messages.map(message => message.recordedAt));
+            return messages.map((message, index) => message.recordedAt === 't1'
+                ? apiError(400)
+                : index > 0 ? new FeedMessageNotSentError() : null);
+        };
+        const queue = createQueue(send);
+
+        const results = await queue.publishAll([reading('station-1', 't1'), reading('station-1', 't2')]);
+
+        assert.deepEqual(results.map(result => result.status), ['dead_lettered', 'delivered']);
+        assert.deepEqual(calls, [['t1', 't2'], ['t2']]);
+    });
+});
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+    AIR_QUALITY_FEED,
+    FeedPayloadValidationError,
+    WEATHER_ALERT_FEED,
+    WEATHER_CONDITIONS_FEED,
+    WeatherConditionsPayload,
+    assertValidPayload,
+    fieldUnits,
+    validatePayload
+} from '../src/feed-schemas';
+
+const reading: WeatherConditionsPayload = {
+    temperature: 12.5,
+    feels_like: 11.2,
+    humidity: 81,
+    pressure: 1012,
+    wind_speed: 4.1,
+    weather: 'Clouds',
+    weather_description: 'broken clouds',
+    clouds: 75,
+    timestamp: '2026-10-18T09:00:00.000Z',
+    units: { temperature: 'Cel' }
+};
+
+describe('validatePayload', () => {
+    it('accepts a payload that matches the schema', () => {
+        assert.deepEqual(validatePayload(WEATHER_CONDITIONS_FEED.schema, reading), []);
+    });
+
+    it('lets optional fields be left out or sent as null', () => {
+        assert.deepEqual(validatePayload(WEATHER_CONDITIONS_FEED.schema, { ...reading, visibility: null, units: undefined }), []);
+    });
+
+    it('reports every problem at once', () => {
+        const { temperature, ...withoutTemperature } = reading;
+
+        const errors = validatePayload(WEATHER_CONDITIONS_FEED.schema, {
+            ...withoutTemperature,
+            humidity: 120,
+            pressure: 'high',
+            timestamp: 'yesterday',
+            dew_point: 3
+        });
+
+        assert.deepEqual(errors, [
+            'temperature is required',
+            'humidity must be at most 100',
+            'pressure must be a number',
+            'timestamp must be an ISO 8601 date-time',
+            'dew_point is not allowed'
+        ]);
+    });
+
+    it('treats a required null as missing and rejects non-finite numbers', () => {
+        assert.deepEqual(validatePayload(WEATHER_CONDITIONS_FEED.schema, { ...reading, clouds: null, wind_speed: NaN }), [
+            'clouds is required',
+            'wind_speed must be a number'
+        ]);
+    });
+
+    it('checks integers, enums and nested objects', () => {
+        assert.deepEqual(validatePayload(AIR_QUALITY_FEED.schema, {
+            aqi: 2.5, pm2_5: 1, pm10: 1, o3: 1, no2: 1, co: 1, so2: 1, timestamp: reading.timestamp
+        }), ['aqi must be an integer']);
+
+        assert.deepEqual(validatePayload(WEATHER_CONDITIONS_FEED.schema, { ...reading, units: { temperature: 1, rain: 'mm' } }), [
+            'units.temperature must be a string; units.rain is not allowed'
+        ]);
+
+        const alert = {
+            alert_id: 'a', state: 'pending', rule_id: 'r', rule_name: 'Gale', severity: 'warning',
+            metric: 'wind_speed', operator: 'above', value: 20, message: 'Gale', raised_at: reading.timestamp
+        };
+        assert.deepEqual(validatePayload(WEATHER_ALERT_FEED.schema, alert), ['state must be one of: raised, cleared']);
+    });
+
+    it('rejects anything but an object', () => {
+        assert.deepEqual(validatePayload(WEATHER_CONDITIONS_FEED.schema, [reading]), ['payload must be an object']);
+    });
+});
+
+describe('assertValidPayload', () => {
+    it('throws a FeedPayloadValidationError naming the feed', () => {
+        assert.throws(() => assertValidPayload(WEATHER_CONDITIONS_FEED, { ...reading, humidity: -1 }), (error: any) =>
+            error instanceof FeedPayloadValidationError &&
+            error.feedName === 'weather_conditions' &&
+            error.message === 'Invalid weather_conditions payload: humidity must be at least 0');
+    });
+});
+
+describe('fieldUnits', () => {
+    it('lists the unit of every numeric property', () => {
+        assert.deepEqual(fieldUnits(WEATHER_CONDITIONS_FEED.schema), {
+            temperature: 'Cel',
+            feels_like: 'Cel',
+            humidity: '%',
+            pressure: 'hPa',
+            visibility: 'm',
+            wind_speed: 'm/s',
+            wind_direction: 'deg',
+            clouds: '%'
+        });
+    });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { FileStore } from '../src/store/file-store';
+import { OrgRecord } from '../src/store/types';
+
+const KEY = 'test-encryption-key';
+
+function orgRecord(): OrgRecord {
+    return {
+        orgId: 'org-1',
+        tokens: { access_token: 'secret-access-token', refresh_token: 'secret-refresh-token', expires_in: 300 },
+        scopes: ['entities:read'],
+        status: 'active',
+        activatedAt: new Date('2026-01-02T03:04:05.000Z'),
+        lastRefreshedAt: null,
+        tokenExpiresAt: new Date('2026-01-02T03:09:05.000Z'),
+        refreshTokenExpiresAt: null
+    };
+}
+
+describe('FileStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-store-'));
+        filePath = path.join(dir, 'store.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads back what it wrote, dates included', async () => {
+        const store = new FileStore(filePath, KEY);
+        await store.organizations.set('org-1', orgRecord());
+        await store.close();
+
+        const reopened = new FileStore(filePath, KEY);
+        assert.deepEqual(await reopened.organizations.get('org-1'), orgRecord());
+    });
+
+    it('writes version 1 with the tokens encrypted', async () => {
+        const store = new FileStore(filePath, KEY);
+        await store.organizations.set('org-1', orgRecord());
+        await store.close();
+
+        const contents = fs.readFileSync(filePath, 'utf8');
+        const document = JSON.parse(contents);
+        assert.equal(document.version, 1);
+        assert.match(document.collections.organizations['org-1'].tokens, /^enc:v1:/);
+        assert.doesNotMatch(contents, /secret-(access|refresh)-token/);
+    });
+
+    it('starts collections missing from the file out empty', async () => {
+        fs.writeFileSync(filePath, JSON.stringify({ version: 1, collections: {} }));
+
+        const store = new FileStore(filePath, KEY);
+        assert.deepEqual(await store.feedQueue.entries(), []);
+        assert.deepEqual(await store.orgSettings.entries(), []);
+    });
+
+    it('refuses a file from a newer version', () => {
+        fs.writeFileSync(filePath, JSON.stringify({ version: 2, collections: {} }));
+
+        assert.throws(() => new FileStore(filePath, KEY), /newer than this server supports/);
+    });
+
+    it("can't read tokens with another key", async () => {
+        const store = new FileStore(filePath, KEY);
+        await store.organizations.set('org-1', orgRecord());
+        await store.close();
+
+        assert.throws(() => new FileStore(filePath, 'another-key'));
+    });
+});
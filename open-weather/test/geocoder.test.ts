@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GeocodeCandidate, describePlace, toGeocodeResult } from '../src/geocoder';
+
+const paris: GeocodeCandidate = { name: 'Paris', state: 'Ile-de-France', country: 'FR', lat: 48.8589, lon: 2.32 };
+const parisTexas: GeocodeCandidate = { name: 'Paris', state: 'Texas', country: 'US', lat: 33.6609, lon: -95.5555 };
+
+describe('toGeocodeResult', () => {
+    it('finds a single place', () => {
+        assert.deepEqual(toGeocodeResult([paris]), { status: 'found', place: paris });
+    });
+
+    it('counts repeat listings of a place once, keeping the first', () => {
+        const repeat = { ...paris, lat: 48.8534, lon: 2.3488 };
+
+        assert.deepEqual(toGeocodeResult([paris, repeat]), { status: 'found', place: paris });
+    });
+
+    it('is ambiguous between distinct places, in the order listed', () => {
+        assert.deepEqual(toGeocodeResult([parisTexas, paris, { ...parisTexas, lat: 33.66 }]), {
+            status: 'ambiguous',
+            candidates: [parisTexas, paris]
+        });
+    });
+
+    it('tells apart places with the same name in different states', () => {
+        const kentucky = { ...parisTexas, state: 'Kentucky' };
+        const withoutState = { ...parisTexas, state: null };
+
+        assert.deepEqual(toGeocodeResult([parisTexas, kentucky, withoutState]), {
+            status: 'ambiguous',
+            candidates: [parisTexas, kentucky, withoutState]
+        });
+    });
+
+    it('finds nothing without candidates', () => {
+        assert.deepEqual(toGeocodeResult([]), { status: 'not_found' });
+    });
+});
+
+describe('describePlace', () => {
+    it('leaves out a missing state', () => {
+        assert.equal(describePlace(parisTexas), 'Paris, Texas, US');
+        assert.equal(describePlace({ ...paris, state: null }), 'Paris, FR');
+    });
+});
@@ -0,0 +1,23 @@
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { describe, it } from 'node:test';
+import { generatePkcePair } from '../src/pkce';
+
+describe('generatePkcePair', () => {
+    it('makes a 43 character base64url verifier', () => {
+        const { codeVerifier } = generatePkcePair();
+        assert.match(codeVerifier, /^[A-Za-z0-9_-]{43}$/);
+    });
+
+    it('derives the challenge from the verifier with S256', () => {
+        const { codeVerifier, codeChallenge, codeChallengeMethod } = generatePkcePair();
+        const expected = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+        assert.equal(codeChallengeMethod, 'S256');
+        assert.equal(codeChallenge, expected);
+    });
+
+    it('gives every authorization request its own verifier', () => {
+        assert.notEqual(generatePkcePair().codeVerifier, generatePkcePair().codeVerifier);
+    });
+});
@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict';
+import { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { describe, it } from 'node:test';
+import { CircuitBreaker, CircuitOpenError, ResilienceOptions, Upstream } from '../src/resilience';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const OPTIONS: ResilienceOptions = {
+    timeoutMs: 1000,
+    maxRetries: 2,
+    baseDelayMs: 1,
+    maxDelayMs: 50,
+    failureThreshold: 10,
+    resetTimeoutMs: 1000
+};
+
+function httpError(status: number, headers: Record<string, string> = {}) {
+    return Object.assign(new Error(`HTTP ${status}`), { response: { status, headers } });
+}
+
+/**
+ * An Upstream whose attempts fail with the scripted errors, then succeed
+ */
+class ScriptedUpstream extends Upstream {
+    attempts = 0;
+
+    constructor(private readonly failures: Error[], options: ResilienceOptions = OPTIONS) {
+        super('scripted', options);
+    }
+
+    protected async send<T>(requestConfig: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+        const failure = this.failures[this.attempts++];
+        if (failure) {
+            throw failure;
+        }
+        return { data: 'ok', status: 200, statusText: 'OK', headers: {}, config: requestConfig } as AxiosResponse<T>;
+    }
+}
+
+describe('CircuitBreaker', () => {
+    it('opens after the threshold of consecutive failures', () => {
+        const breaker = new CircuitBreaker('legion', 3, 1000);
+        for (let i = 0; i < 3; i++) {
+            breaker.beforeRequest();
+            breaker.recordFailure(httpError(502));
+        }
+
+        assert.throws(() => breaker.beforeRequest(), CircuitOpenError);
+        assert.equal(breaker.snapshot().state, 'open');
+        assert.equal(breaker.snapshot().lastError, 'HTTP 502');
+    });
+
+    it('lets a single trial through once the reset timeout has passed', async () => {
+        const breaker = new CircuitBreaker('legion', 1, 20);
+        breaker.recordFailure(httpError(503));
+        await sleep(30);
+
+        breaker.beforeRequest();
+        assert.equal(breaker.snapshot().state, 'half_open');
+        assert.throws(() => breaker.beforeRequest(), CircuitOpenError);
+    });
+
+    it('closes when the trial succeeds and opens again when it fails', async () => {
+        const breaker = new CircuitBreaker('legion', 1, 20);
+        breaker.recordFailure(httpError(503));
+        await sleep(30);
+        breaker.beforeRequest();
+        breaker.recordSuccess();
+        assert.equal(breaker.snapshot().state, 'closed');
+
+        breaker.recordFailure(httpError(503));
+        await sleep(30);
+        breaker.beforeRequest();
+        breaker.recordFailure(httpError(503));
+        assert.equal(breaker.snapshot().state, 'open');
+    });
+
+    it('counts only consecutive failures', () => {
+        const breaker = new CircuitBreaker('legion', 2, 1000);
+        breaker.recordFailure(httpError(503));
+        breaker.recordSuccess();
+        breaker.recordFailure(httpError(503));
+
+        assert.equal(breaker.snapshot().state, 'closed');
+    });
+});
+
+describe('Upstream', () => {
+    it('retries idempotent requests on 5xx and network errors', async () => {
+        const upstream = new ScriptedUpstream([httpError(503), Object.assign(new Error('reset'), { code: 'ECONNRESET' })]);
+
+        const response = await upstream.request({ url: '/weather' });
+
+        assert.equal(response.data, 'ok');
+        assert.equal(upstream.attempts, 3);
+    });
+
+    it('gives up after maxRetries with the original error', async () => {
+        const last = httpError(504);
+        const upstream = new ScriptedUpstream([httpError(502), httpError(503), last]);
+
+        await assert.rejects(upstream.request({ url: '/weather' }), error => error === last);
+        assert.equal(upstream.attempts, 3);
+    });
+
+    it("doesn't resend a POST unless it is marked idempotent", async () => {
+        const post = new ScriptedUpstream([httpError(503)]);
+        await assert.rejects(post.request({ method: 'POST', url: '/feeds/messages' }));
+        assert.equal(post.attempts, 1);
+
+        const search = new ScriptedUpstream([httpError(503)]);
+        await search.request({ method: 'POST', url: '/entities/search' }, { idempotent: true });
+        assert.equal(search.attempts, 2);
+    });
+
+    it("doesn't retry client errors or count them against the circuit", async () => {
+        const upstream = new ScriptedUpstream([httpError(400)], { ...OPTIONS, failureThreshold: 1 });
+
+        await assert.rejects(upstream.request({ url: '/weather' }));
+        assert.equal(upstream.attempts, 1);
+        assert.equal(upstream.breaker.snapshot().state, 'closed');
+    });
+
+    it('resends any method after a 429 with a short Retry-After', async () => {
+        const upstream = new ScriptedUpstream([httpError(429, { 'retry-after': '0' })]);
+
+        await upstream.request({ method: 'POST', url: '/feeds/messages' });
+        assert.equal(upstream.attempts, 2);
+    });
+
+    it('gives up on a 429 whose Retry-After is longer than maxDelayMs', async () => {
+        const upstream = new ScriptedUpstream([httpError(429, { 'retry-after': '60' })]);
+
+        await assert.rejects(upstream.request({ url: '/weather' }));
+        assert.equal(upstream.attempts, 1);
+    });
+
+    it('fails fast without sending while the circuit is open', async () => {
+        const upstream = new ScriptedUpstream([httpError(503), httpError(503)], { ...OPTIONS, maxRetries: 0, failureThreshold: 1 });
+
+        await assert.rejects(upstream.request({ url: '/weather' }));
+        await assert.rejects(upstream.request({ url: '/weather' }), CircuitOpenError);
+        assert.equal(upstream.attempts, 1);
+    });
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { missingScopes, parseGrantedScopes } from '../src/scopes';
+
+describe('parseGrantedScopes', () => {
+    it('keeps the scopes of the given organization without their prefix', () => {
+        assert.deepEqual(
+            parseGrantedScopes('org-1:::entities:read org-1:::feeds:write', 'org-1'),
+            ['entities:read', 'feeds:write']
+        );
+    });
+
+    it("drops other organizations' scopes and keeps unprefixed ones", () => {
+        assert.deepEqual(
+            parseGrantedScopes('openid org-2:::entities:write org-1:::feeds:read', 'org-1'),
+            ['openid', 'feeds:read']
+        );
+    });
+
+    it('keeps every prefixed scope when no organization is given, once each', () => {
+        assert.deepEqual(
+            parseGrantedScopes('org-1:::feeds:read  org-2:::feeds:read org-2:::feeds:write'),
+            ['feeds:read', 'feeds:write']
+        );
+    });
+
+    it('grants nothing for a missing scope string', () => {
+        assert.deepEqual(parseGrantedScopes(undefined, 'org-1'), []);
+        assert.deepEqual(parseGrantedScopes('', 'org-1'), []);
+    });
+});
+
+describe('missingScopes', () => {
+    it('lists the required scopes that were not granted', () => {
+        assert.deepEqual(missingScopes(['entities:read'], ['entities:read', 'feeds:write']), ['feeds:write']);
+        assert.deepEqual(missingScopes(['entities:read', 'feeds:write'], ['feeds:write']), []);
+    });
+});
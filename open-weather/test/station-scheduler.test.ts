@@ -0,0 +1,179 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { PublishResult } from '../src/feed-queue';
+import { Entity } from '../src/legion-client';
+import { StationPoller, StationScheduler, StationSchedulerOptions } from '../src/station-scheduler';
+import { OrgRecord, StationSchedule } from '../src/store';
+import { MemoryCollection } from '../src/store/memory-store';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const OPTIONS: StationSchedulerOptions = {
+    enabled: true,
+    defaultIntervalMs: 60_000,
+    jitterRatio: 0.1,
+    concurrency: 4,
+    tickMs: 60_000
+};
+
+function station(id: string, status: Entity['status'] = 'active'): Entity {
+    return { id, organization_id: 'org-1', name: id, category: 'DEVICE', type: 'WEATHER_STATION', status, metadata: {} };
+}
+
+const org: OrgRecord = {
+    orgId: 'org-1',
+    tokens: { access_token: 'token' },
+    scopes: [],
+    status: 'active',
+    activatedAt: new Date(),
+    lastRefreshedAt: null,
+    tokenExpiresAt: null,
+    refreshTokenExpiresAt: null
+};
+
+function dueSchedule(stationId: string, changes: Partial<StationSchedule> = {}): StationSchedule {
+    return {
+        orgId: 'org-1',
+        stationId,
+        enabled: true,
+        intervalMs: null,
+        nextRunAt: new Date(Date.now() - 1000).toISOString(),
+        lastRunAt: null,
+        lastStatus: null,
+        lastError: null,
+        ...changes
+    };
+}
+
+/**
+ * Wait until the condition holds, for at most a second
+ */
+async function until(condition: () => Promise<boolean>) {
+    for (let waited = 0; !(await condition()); waited += 5) {
+        assert.ok(waited < 1000, 'timed out');
+        await sleep(5);
+    }
+}
+
+let scheduler: StationScheduler | null = null;
+
+afterEach(() => scheduler?.stop());
+
+async function setUp(stations: Entity[], poll: StationPoller, checks: { paused?: string; deferred?: string } = {}) {
+    const schedules = new MemoryCollection<StationSchedule>();
+    const organizations = new MemoryCollection<OrgRecord>();
+    const stationLists = new MemoryCollection<Entity[]>();
+    await organizations.set('org-1', org);
+    await stationLists.set('org-1', stations);
+
+    scheduler = new StationScheduler(
+        schedules,
+        organizations,
+        stationLists,
+        poll,
+        async () => checks.paused || null,
+        async () => checks.deferred || null,
+        OPTIONS
+    );
+    return { scheduler, schedules };
+}
+
+describe('StationScheduler', () => {
+    it('polls due stations and schedules the next run', async () => {
+        const polled: string[] = [];
+        const { scheduler, schedules } = await setUp([station('s1')], async (orgId, polledStation) => {
+            polled.push(polledStation.id);
+            return { id: 'message-1', status: 'delivered' };
+        });
+        await schedules.set('org-1:s1', dueSchedule('s1'));
+
+        scheduler.start();
+        await until(async () => (await schedules.get('org-1:s1'))!.lastRunAt !== null);
+
+        const schedule = (await schedules.get('org-1:s1'))!;
+        assert.deepEqual(polled, ['s1']);
+        assert.equal(schedule.lastStatus, 'delivered');
+        const delay = Date.parse(schedule.nextRunAt) - Date.parse(schedule.lastRunAt!);
+        assert.ok(delay >= 54_000 && delay <= 66_000);
+    });
+
+    it('records unchanged readings and failed polls', async () => {
+        const results: Record<string, () => Promise<PublishResult | null>> = {
+            s1: async () => null,
+            s2: async () => { throw new Error('Provider unavailable'); }
+        };
+        const { scheduler, schedules } = await setUp([station('s1'), station('s2')], (orgId, polledStation) => results[polledStation.id]());
+        await schedules.set('org-1:s1', dueSchedule('s1'));
+        await schedules.set('org-1:s2', dueSchedule('s2'));
+
+        scheduler.start();
+        await until(async () => (await schedules.entries()).every(([, schedule]) => schedule.lastRunAt !== null));
+
+        assert.equal((await schedules.get('org-1:s1'))!.lastStatus, 'unchanged');
+        const failed = (await schedules.get('org-1:s2'))!;
+        assert.equal(failed.lastStatus, 'failed');
+        assert.equal(failed.lastError, 'Provider unavailable');
+    });
+
+    it('skips disabled schedules, inactive stations and deferred polls', async () => {
+        const polled: string[] = [];
+        const poll: StationPoller = async (orgId, polledStation) => {
+            polled.push(polledStation.id);
+            return { id: 'message-1', status: 'delivered' };
+        };
+
+        const first = await setUp([station('s1'), station('s2', 'inactive')], poll);
+        await first.schedules.set('org-1:s1', dueSchedule('s1', { enabled: false }));
+        await first.schedules.set('org-1:s2', dueSchedule('s2'));
+        first.scheduler.start();
+        await sleep(20);
+        first.scheduler.stop();
+
+        const deferred = await setUp([station('s3')], poll, { deferred: 'quota_reserved' });
+        await deferred.schedules.set('org-1:s3', dueSchedule('s3'));
+        deferred.scheduler.start();
+        await sleep(20);
+
+        assert.deepEqual(polled, []);
+    });
+
+    it("doesn't poll a paused organization but keeps its schedules", async () => {
+        const polled: string[] = [];
+        const { scheduler, schedules } = await setUp([station('s1')], async (orgId, polledStation) => {
+            polled.push(polledStation.id);
+            return null;
+        }, { paused: 'needs_reconsent' });
+        await schedules.set('org-1:s1', dueSchedule('s1'));
+
+        scheduler.start();
+        await sleep(20);
+
+        assert.deepEqual(polled, []);
+        assert.ok(await schedules.get('org-1:s1'));
+        assert.equal((await scheduler.pollingState('org-1', [station('s1')])).s1.paused_reason, 'needs_reconsent');
+    });
+
+    it('gives new stations a schedule and drops those of removed stations', async () => {
+        const { scheduler, schedules } = await setUp([station('s1')], async () => null);
+        await schedules.set('org-1:gone', dueSchedule('gone', { nextRunAt: new Date(Date.now() + 60_000).toISOString() }));
+
+        scheduler.start();
+        await until(async () => (await schedules.get('org-1:gone')) === undefined);
+
+        const created = (await schedules.get('org-1:s1'))!;
+        assert.ok(Date.parse(created.nextRunAt) <= Date.now() + OPTIONS.defaultIntervalMs);
+    });
+
+    it('applies a new interval from now', async () => {
+        const { scheduler } = await setUp([station('s1')], async () => null);
+
+        const schedule = await scheduler.configure('org-1', 's1', { intervalMs: 10 * 60_000 });
+        const delay = Date.parse(schedule.nextRunAt) - Date.now();
+
+        assert.equal(schedule.intervalMs, 600_000);
+        assert.ok(delay > 530_000 && delay <= 660_000);
+        const state = await scheduler.pollingState('org-1', [station('s1')]);
+        assert.equal(state.s1.interval_seconds, 600);
+        assert.equal(state.s1.next_run_at, schedule.nextRunAt);
+    });
+});
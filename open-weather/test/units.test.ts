@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { SYSTEM_UNITS, convert, convertFields, fromSi, isUnitSystem, toSi, unitsIn } from '../src/units';
+
+describe('units', () => {
+    it('converts temperatures through kelvin', () => {
+        assert.equal(toSi(0, 'Cel'), 273.15);
+        assert.equal(fromSi(273.15, '[degF]'), 32);
+        assert.equal(convert(100, 'Cel', '[degF]'), 212);
+        assert.equal(convert(-40, '[degF]', 'Cel'), -40);
+    });
+
+    it('rounds to the precision of the target unit', () => {
+        assert.equal(convert(1013.25, 'hPa', "[in_i'Hg]"), 29.92);
+        assert.equal(convert(10, 'm/s', '[mi_i]/h'), 22.37);
+        assert.equal(fromSi(101325, 'hPa'), 1013.3);
+    });
+
+    it('leaves a value in its own unit untouched', () => {
+        assert.equal(convert(21.456, 'Cel', 'Cel'), 21.456);
+    });
+
+    it('refuses to convert between quantities or unknown units', () => {
+        assert.throws(() => convert(1, 'Cel', 'hPa'), /Cannot convert Cel to hPa/);
+        assert.throws(() => toSi(1, 'furlong'), /Unknown unit: furlong/);
+    });
+
+    it('maps field units into a unit system', () => {
+        const units = { temperature: 'Cel', pressure: 'hPa', humidity: '%' };
+
+        assert.deepEqual(unitsIn(units, SYSTEM_UNITS.imperial), { temperature: '[degF]', pressure: "[in_i'Hg]", humidity: '%' });
+        assert.deepEqual(unitsIn(units, SYSTEM_UNITS.standard), { temperature: 'K', pressure: 'hPa', humidity: '%' });
+    });
+
+    it('converts only numeric fields that have units on both sides', () => {
+        const from = { temperature: 'Cel', rain: 'mm', humidity: '%' };
+        const to = { temperature: '[degF]', rain: '[in_i]' };
+
+        const converted = convertFields({ temperature: 20, rain: null, humidity: 80, name: 'Kew' }, from, to);
+
+        assert.deepEqual(converted, { temperature: 68, rain: null, humidity: 80, name: 'Kew' });
+    });
+
+    it('recognizes the unit systems', () => {
+        assert.equal(isUnitSystem('imperial'), true);
+        assert.equal(isUnitSystem('nautical'), false);
+    });
+});
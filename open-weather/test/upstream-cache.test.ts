@@ -0,0 +1,143 @@
+import assert from 'node:assert/strict';
+import { AxiosAdapter, AxiosRequestConfig } from 'axios';
+import { describe, it } from 'node:test';
+import { ResilienceOptions } from '../src/resilience';
+import { CachedUpstream, QuotaExceededError, QuotaLimits, QuotaTracker } from '../src/upstream-cache';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const OPTIONS: ResilienceOptions = {
+    timeoutMs: 1000,
+    maxRetries: 0,
+    baseDelayMs: 1,
+    maxDelayMs: 10,
+    failureThreshold: 10,
+    resetTimeoutMs: 1000
+};
+
+const NO_LIMITS: QuotaLimits = { perMinute: 0, perDay: 0, reserveRatio: 0 };
+
+/**
+ * A provider answering from memory: each call gets the next number, or fails while `failing` is set
+ */
+function fakeProvider() {
+    const provider = { calls: 0, failing: false };
+    const adapter: AxiosAdapter = async config => {
+        provider.calls++;
+        await sleep(5);
+        if (provider.failing) {
+            throw Object.assign(new Error('Bad request'), { response: { status: 400, headers: {} } });
+        }
+        return { data: provider.calls, status: 200, statusText: 'OK', headers: {}, config };
+    };
+    return Object.assign(provider, { adapter });
+}
+
+function createUpstream(ttlMs = 60_000, limits: QuotaLimits = NO_LIMITS, maxEntries = 100) {
+    return new CachedUpstream('openweather', OPTIONS, { ttlMs, maxEntries }, limits);
+}
+
+const weatherAt = (adapter: AxiosAdapter, lat: number, lon: number): AxiosRequestConfig =>
+    ({ url: 'https://weather.test/data/2.5/weather', params: { lat, lon, appid: 'secret' }, adapter });
+
+describe('CachedUpstream', () => {
+    it('answers a repeated GET from the cache until it expires', async () => {
+        const provider = fakeProvider();
+        const upstream = createUpstream(30);
+
+        assert.equal((await upstream.request(weatherAt(provider.adapter, 51.5, -0.13))).data, 1);
+        assert.equal((await upstream.request(weatherAt(provider.adapter, 51.5, -0.13))).data, 1);
+        await sleep(40);
+        assert.equal((await upstream.request(weatherAt(provider.adapter, 51.5, -0.13))).data, 2);
+
+        const { cache } = upstream.snapshot();
+        assert.deepEqual([cache.hits, cache.misses], [1, 2]);
+    });
+
+    it('shares a response between nearby coordinates and leaves the API key out of the key', async () => {
+        const provider = fakeProvider();
+        const upstream = createUpstream();
+
+        await upstream.request(weatherAt(provider.adapter, 51.5012, -0.1301));
+        await upstream.request({ ...weatherAt(provider.adapter, 51.4998, -0.1299), params: { lat: 51.4998, lon: -0.1299, appid: 'other' } });
+
+        assert.equal(provider.calls, 1);
+        assert.deepEqual(upstream.snapshot().quota.topKeys.map(top => top.key), ['https://weather.test/data/2.5/weather?lat=51.50&lon=-0.13']);
+    });
+
+    it('collapses identical requests already in flight into one call', async () => {
+        const provider = fakeProvider();
+        const upstream = createUpstream();
+
+        const responses = await Promise.all([1, 2, 3].map(() => upstream.request(weatherAt(provider.adapter, 10, 20))));
+
+        assert.deepEqual(responses.map(response => response.data), [1, 1, 1]);
+        assert.equal(upstream.snapshot().cache.collapsed, 2);
+    });
+
+    it("doesn't cache failures", async () => {
+        const provider = fakeProvider();
+        const upstream = createUpstream();
+        provider.failing = true;
+
+        await assert.rejects(upstream.request(weatherAt(provider.adapter, 10, 20)));
+        provider.failing = false;
+        assert.equal((await upstream.request(weatherAt(provider.adapter, 10, 20))).data, 2);
+    });
+
+    it('drops the oldest responses beyond maxEntries', async () => {
+        const provider = fakeProvider();
+        const upstream = createUpstream(60_000, NO_LIMITS, 2);
+
+        for (const lat of [1, 2, 3]) {
+            await upstream.request(weatherAt(provider.adapter, lat, 0));
+        }
+        await upstream.request(weatherAt(provider.adapter, 1, 0));
+
+        assert.equal(provider.calls, 4);
+        assert.equal(upstream.snapshot().cache.entries, 2);
+    });
+
+    it('refuses calls once the quota is used up but still serves the cache', async () => {
+        const provider = fakeProvider();
+        const upstream = createUpstream(60_000, { perMinute: 2, perDay: 0, reserveRatio: 0 });
+
+        await upstream.request(weatherAt(provider.adapter, 1, 0));
+        await upstream.request(weatherAt(provider.adapter, 2, 0));
+
+        await assert.rejects(upstream.request(weatherAt(provider.adapter, 3, 0)), (error: any) =>
+            error instanceof QuotaExceededError && error.window === 'minute' && error.retryAt > new Date());
+        await assert.rejects(upstream.request({ ...weatherAt(provider.adapter, 1, 0), method: 'POST' }), QuotaExceededError);
+        assert.equal((await upstream.request(weatherAt(provider.adapter, 1, 0))).data, 1);
+        assert.equal(provider.calls, 2);
+    });
+});
+
+describe('QuotaTracker', () => {
+    it('defers polls once only the reserved share of a limit is left', () => {
+        const quota = new QuotaTracker('openweather', { perMinute: 0, perDay: 4, reserveRatio: 0.5 });
+
+        quota.record('a');
+        assert.equal(quota.shouldDefer(), false);
+        quota.record('b');
+        assert.equal(quota.shouldDefer(), true);
+        assert.doesNotThrow(() => quota.assertAvailable());
+
+        quota.record('a');
+        quota.record('a');
+        assert.throws(() => quota.assertAvailable(), QuotaExceededError);
+    });
+
+    it('reports usage per window and the busiest keys', () => {
+        const quota = new QuotaTracker('openweather', { perMinute: 10, perDay: 0, reserveRatio: 0 });
+        quota.record('a');
+        quota.record('b');
+        quota.record('b');
+
+        const snapshot = quota.snapshot();
+        assert.equal(snapshot.minute.used, 3);
+        assert.equal(snapshot.minute.limit, 10);
+        assert.equal(snapshot.day.limit, null);
+        assert.deepEqual(snapshot.topKeys, [{ key: 'b', minute: 2, day: 2 }, { key: 'a', minute: 1, day: 1 }]);
+    });
+});